@@ -1,4 +1,7 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { randomSeed } from './random';
+import { normalizeHour } from './time-of-day';
+import { HEIGHT_NODE_INPUTS } from './terrain-height-graph';
 
 const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
 const genAI = new GoogleGenerativeAI(API_KEY);
@@ -17,16 +20,41 @@ CORE RULES:
 
 UNLIMITED CREATIVE PARAMETERS:
 
+WORLD SEED:
+- seed: one random integer (0-4294967295) that identifies the whole world. Every noise layer is derived from it.
+- The "seed" inside individual layers is only an optional salt (small integer, default 0) to vary that one layer.
+
 WORLD SCALE: Create worlds of any size and scale
 - width/depth: Can be 500 (intimate) to 10000+ (massive alien worlds)
 - maxHeight: Can be negative (underwater worlds), 0 (flat), or 5000+ (towering alien spires)
 - segments: 100-2000 based on detail needs
+- chunks (optional): { "enabled": true, "chunkSize": 256, "chunkSegments": 64, "viewDistance": 1500 } for ENDLESS worlds that stream in around the viewer (infinite deserts, oceans, open-world prototypes). chunkSegments is a power of two (16, 32, 64 or 128). Width/depth are ignored when enabled.
+- erosion (optional): { "enabled": true, "iterations": 150000, "rainAmount": 1, "sedimentCapacity": 4, "thermalIterations": 10, "talusAngle": 40 } weathers the heightmap into realistic gullies, valleys and scree slopes. More iterations = stronger erosion (scale with segments^2, ~1 raindrop per 5-10 grid cells). Higher sedimentCapacity carves deeper channels; lower talusAngle gives softer slopes. Leave it out for crisp alien/crystal worlds. Ignored for chunks/lod worlds.
+- water (optional): { "enabled": true, "hasOcean": true, "oceanLevel": [HEIGHT], "riverDensity": [0-1], "lakeDensity": [0-1], "waterfallThreshold": 15, "precipitation": [0-1], "color": { "r": [0-1], "g": [0-1], "b": [0-1] }, "carve": true, "riverDepth": 6, "riverWidth": 24, "bankWidth": 20, "sedimentColor": { "r": [0-1], "g": [0-1], "b": [0-1] } } simulates real water on the final terrain: a flat sea at oceanLevel (world height - put it between the lowest and highest biome baseHeights for coastlines), lakes that fill basins, rivers that follow the drainage and waterfalls where they drop. Rivers carve channels (riverDepth/riverWidth for the biggest river, in world units, smaller streams scale down) and river and lake beds take sedimentColor. Use it for any world with seas, lakes or rivers; more precipitation/riverDensity = more, bigger rivers. Ignored for chunks/lod worlds.
+- lod (optional): { "enabled": true, "levels": 4, "levelDistance": 400 } renders distant terrain at lower detail. Use it for huge worlds (4000+ width/depth) or together with chunks.
+
+TERRAIN LAYERS (added on top of every biome's height):
+- terrain.base: broad rolling land shape. terrain.mountains: ridged mountain ranges that rise where the base layer is high. terrain.details: small bumps everywhere.
+- Layer amplitudes (and baseHeight) are FRACTIONS of global.maxHeight: 0 disables a layer, 0.1-0.3 is gentle, 0.5-1.0 is dramatic.
+- environment.temperature / environment.moisture: large-scale climate fields (use low scales like 0.0003-0.001).
+
+BIOME SELECTION:
+- Default ("range" mode): biomeControl noise picks biomes by controlRange, so only neighbours in the sorted list can touch.
+- "biomeControl": { "mode": "climate", ... } picks biomes by climate instead. Give every biome "climate": { "temperature": [min, max], "moisture": [min, max], "elevation": [min, max] } (all 0-1, omit an axis to span all of it).
+  Elevation comes from the terrain layers (0 = lowest ground, 1 = highest). Use this for realistic worlds where deserts can meet mountains and oceans can meet forests.
+- Optional per-biome "transitionWidth" (default 0.1) sets how wide the blend into neighbouring biomes is: 0.02 for sharp cliffs/shorelines, 0.3+ for soft gradual changes.
 
 TERRAIN EXTREMES:
 - baseHeight: -2000 (deep abyssal trenches) to +3000 (floating sky cities)
 - amplitude: 0 (perfectly flat) to 2000+ (impossibly jagged peaks)
 - scale: 0.00001 (continental features) to 1.0 (tiny detailed bumps)
 - octaves: 1 (simple) to 12 (incredibly complex fractals)
+- type (optional, any noise block: terrainParams, terrain layers, environment, biomeControl): "perlin" (default, soft rolling), "simplex" (smoother, no grid artefacts), "opensimplex2" (like simplex with even less directional bias - natural dunes, hills), "value" (blobby, lumpy - rounded hills, boulders), "worley" (cellular). Simplex, opensimplex2 and value reach higher peaks than perlin at the same amplitude.
+- cellular (with type "worley"): { "output": "f1"|"f2"|"f2-f1", "jitter": [0-1] }. f1 = round cells (a negative amplitude makes cones and crystal spikes), f2 = domes with creased seams, f2-f1 = low along cell borders (cracked earth, mesas and plates, columnar basalt). jitter 1 (default) gives irregular cells, low jitter an even grid of cells.
+- fractal (optional, any noise block with amplitude, and biomeControl): how the octaves stack. "fbm" (default) rounded, rolling shapes; "ridged" sharp ridgelines and knife-edge crests - use it for alpine peaks, sierras, dragon spines (terrain.mountains is ridged unless set); "billow" puffy rounded hills, dunes, cloud-like mounds (sits lower, raise baseHeight); "hybrid" smooth valleys with rough, detailed peaks - realistic mountain massifs; "heterogeneous" flat lowlands rising into increasingly broken highlands - plains that turn into badlands.
+- warp (optional, any noise block): { "strength": [WORLD UNITS], "scale": [SCALE], "octaves": [1-8] } domain warping - bends the terrain's features into swirls, folds and meanders. strength is how far (world units) the pattern is pushed, about 0.5-2x the feature size (1/scale) looks natural; more gives alien, marbled, flowing landforms. scale defaults to the layer's own scale.
+- shape (optional, biome terrainParams only): height profile operators applied after the noise, in this order. "curve": [[IN, OUT], ...] remaps 0-1 of the biome's height range (e.g. [[0,0],[0.45,0.1],[0.55,0.9],[1,1]] = cliff bands between flat levels); "terrace": { "step": [WORLD UNITS], "sharpness": [0-1] } steps every "step" units (rice terraces: small step, sharpness 0.8; eroded mesas: big step, 0.5); "plateau": { "height": [WORLD HEIGHT], "smoothness": [UNITS] } flat tops at that height (buttes, tablelands); "canyon": { "depth": [UNITS], "width": [0.01-0.1], "scale": [SCALE] } winding flat-floored canyons cut into the biome (slot canyons: width 0.01, deep; grand canyons: width 0.08+, low scale). Example mesa biome: "terrainParams": { ..., "shape": { "terrace": { "step": 40, "sharpness": 0.7 }, "plateau": { "height": 160, "smoothness": 10 } } }.
+- heightGraph (optional, top level, advanced): { "output": "[NODE ID]", "nodes": [ { "id": "[ID]", "type": "[TYPE]", "inputs": ["[NODE ID]", ...], ... } ] } replaces the usual height (biome elevation + terrain layers) with a recipe of nodes. Sources: "noise" { "noise": { NOISE BLOCK, amplitude in world units, default 1 } }, "constant" { "value" }, "biomes" (the biome elevation), "layers" (the terrain layers), "biomeMask" { "biome": "[BIOME NAME]" } (0-1 share of that biome). Combiners (any number of inputs): "add", "multiply", "max", "min"; "blend" (inputs [a, b, mask]: a where mask is 0, b where it is 1). Shapers (one input): "curve" { "points": [[IN, OUT], ...] }, "remap" { "from": [A, B], "to": [C, D] }, "terrace" { "step": [HEIGHT PER STEP], "sharpness": [0-1] }, "clamp" { "min", "max" }. Example - terraced mountains only: biomes -> terrace (step 40) -> blend with biomes using biomeMask of the mountain biome. Only use it when the prompt asks for something the normal parameters can't do (terraces, plateaus, combined shapes); leave it out otherwise.
 
 LIGHTING CREATIVITY:
 - intensity: 0 (pitch black) to 10+ (blindingly bright alien suns)
@@ -34,10 +62,17 @@ LIGHTING CREATIVITY:
 - Can simulate: night scenes, multiple suns, glowing atmospheres, bioluminescence, magical lighting
 - FOR NIGHTTIME: Use ambient intensity 0.2-0.4 and directional intensity 0.15-0.3 (moonlight = ~25% of daylight)
 - FOR NIGHTTIME: Use cool blue/purple ambient colors (r:0.1-0.3, g:0.1-0.4, b:0.3-0.7) for moonlight feel
+- shadows (optional): { "enabled": true, "cascades": [1-4], "mapSize": [1024/2048/4096], "maxDistance": [WORLD UNITS] } - cascaded sun shadows, on by default; set maxDistance to about the world size. Only disable for worlds with no sun.
+- postProcessing (optional): { "enabled": true, "toneMapping": "aces"|"agx"|"neutral", "exposure": [0.3-3], "bloom": { "enabled": true, "strength": [0-3], "radius": [0-1], "threshold": [0.5-3] }, "ssao": { "enabled": true, "radius": [4-64] }, "colorGrading": { "saturation": [0-2], "contrast": [0.5-2], "temperature": [-1 to 1], "shadowTint": RGB, "highlightTint": RGB } }
+  HDR rendering with a cinematic finish. Use it for any world with glowing (emission) biomes - bloom only makes lava, crystals and neon glow when it is enabled (lower threshold = more glow; neon worlds: strength 1.5, threshold 0.8). SSAO adds soft contact shadows in crevices. Grade for mood: desaturated + cool for bleak worlds, warm teal/orange split tones for cinematic ones.
+- timeOfDay (optional): hour 0-24 (6 dawn, 12 noon, 18.5 dusk, 0 midnight). When set, the sun and moon move across the sky and lighting/skybox describe the MIDDAY look - dawn, dusk and night are derived from them, so don't darken them yourself. Omit it for a fixed, hand-lit scene.
 
 SKYBOX ATMOSPHERES:
 - horizonColor, zenithColor: Create any atmosphere - toxic green, blood red, deep purple, crystal blue
 - atmosphereStrength: 0 (clear) to 2.0+ (thick, hazy alien atmospheres)
+- fog (optional, top level): { "color": RGB, "density": [0.00002-0.005], "heightFalloff": [0.0005-0.02], "baseHeight": [WORLD HEIGHT] } - exponential height fog, densest at baseHeight and thinning upwards. Omit it and the fog takes the horizon/atmosphere colours (thicker atmosphereStrength = denser fog). Low falloff = tall fog banks, high falloff = mist hugging valleys.
+- Biomes can add their own "fog" block (same fields, unset ones use the world fog) that the camera fades into inside the biome: swamp mist { "color": {r:0.5,g:0.55,b:0.45}, "density": 0.002, "heightFalloff": 0.02 }, volcanic ash { "color": {r:0.3,g:0.25,b:0.22}, "density": 0.001 }.
+- model: "scattering" computes a physically based sky (Rayleigh + Mie + ozone) lit from the directional light's direction and colour, with a sun disc and real sunsets - use it for realistic or alien-planet skies. planetRadius (km, 6371 = Earth, small moons 200-1000 curve the horizon), turbidity (1 crisp - 10+ dusty/hazy), ozone (0 = no blue twilight, 3+ deep blue), sunIntensity (default 20). The gradient colours are still required: they tint fog and are the fallback. Omit model (or "gradient") for the stylised colour gradient.
 
 MATERIAL MAGIC (Advanced Surface Properties):
 - transparency: 0 (opaque) to 1 (fully transparent glass/crystal)
@@ -48,13 +83,17 @@ MATERIAL MAGIC (Advanced Surface Properties):
 - ior: 1.0 (air) to 2.5 (diamond) - index of refraction for glass
 - iridescence: 0 (no rainbow) to 1 (full prismatic rainbow effects)
 - isWater: true for animated water surfaces with reflections
-- flowDirection: {x, y} for animated flow direction in water/lava
+- flowDirection: {x, y} for animated flow direction in water/lava (x/y = world x/z; length 1 is a gentle drift, 3+ a fast current)
+- Materials apply only where their biome is: a lava biome glows and a metal biome shines in its own region and blends into its neighbours across biome borders. isWater or transparency above 0.5 makes the biome's ground a separate see-through surface; below that it stays solid.
+- textures (optional, per biome, next to material): [{ "preset": "grass"|"rock"|"sand"|"snow"|"dirt"|"gravel"|"mud"|"ash"|"moss"|"ice", "height": [0-1, 0-1], "slope": [DEGREES, DEGREES], "scale": [WORLD UNITS], "tint": RGB }] surface textures close up. height is the part of the biome's own height range (0 = its lowest ground, 1 = its peaks) and slope the steepness where the layer shows; overlapping layers blend, and the colorRamp shows wherever none applies. Rock on slopes above ~35 degrees and snow on high, gentle ground look natural. scale (default 8) is the size of one texture repeat; tint multiplies the texture. Up to 8 different textures per world. Not shown on water or see-through (transparency above 0.5) biomes.
 
 COLOR MAGIC:
 - Use vibrant, saturated colors for alien worlds
 - Create glowing effects with bright colors (0.8+ values)
 - Mix impossible color combinations
 - Use color gradients to show magical properties
+- colorRules (optional, per biome): [{ "color": RGB, "slope": [DEGREES, DEGREES], "altitude": [HEIGHT, HEIGHT], "nearWater": [UNITS], "blend": [UNITS], "dither": [UNITS], "strength": [0-1], "texture": [PRESET] }] paint over the colorRamp wherever ALL the given conditions hold; later rules paint on top. slope is the steepness in degrees, altitude is world height, nearWater is the distance above or below the sea level (height 0 without an ocean). blend softens the edge (default 5 degrees / 10 units) and dither makes it ragged with noise (same units). texture (a textures preset) also swaps the surface texture there.
+  Examples: bare cliffs { "color": {r:0.4,g:0.38,b:0.35}, "slope": [35, 90], "texture": "rock" }, snow line { "color": {r:0.95,g:0.95,b:1}, "altitude": [600, 100000], "dither": 40, "texture": "snow" }, beaches { "color": {r:0.85,g:0.78,b:0.55}, "nearWater": 6, "texture": "sand" }. Use them whenever a biome spans cliffs, snowy peaks or shorelines.
 
 BIOME EXAMPLES FOR INSPIRATION:
 - "Normal mountains": Medium to High amplitude based on prompt, gray colors with snowcaps + NO material property
@@ -84,19 +123,21 @@ TECHNICAL MINIMUMS (only to prevent crashes):
 
 STRUCTURE TEMPLATE:
 {
+    "seed": [RANDOM],
     "global": { "width": [SIZE], "depth": [SIZE], "maxHeight": [HEIGHT], "segments": [DETAIL], "offset": 0 },
-    "skybox": { "horizonColor": { "r": [0-1], "g": [0-1], "b": [0-1] }, "zenithColor": { "r": [0-1], "g": [0-1], "b": [0-1] }, "atmosphereColor": { "r": [0-1], "g": [0-1], "b": [0-1] }, "atmosphereStrength": [0-2] },
+    "skybox": { "model": ["gradient" or "scattering"], "horizonColor": { "r": [0-1], "g": [0-1], "b": [0-1] }, "zenithColor": { "r": [0-1], "g": [0-1], "b": [0-1] }, "atmosphereColor": { "r": [0-1], "g": [0-1], "b": [0-1] }, "atmosphereStrength": [0-2] },
     "lighting": { "ambient": { "color": { "r": [0-1], "g": [0-1], "b": [0-1] }, "intensity": [0-10] }, "directional": { "color": { "r": [0-1], "g": [0-1], "b": [0-1] }, "intensity": [0-10], "position": { "x": 100, "y": 100, "z": 50 } } },
+    "timeOfDay": [0-24],
     "terrain": {
-        "base": { "seed": [RANDOM], "scale": [SCALE], "octaves": [1-16], "persistence": 0.5, "lacunarity": 2.0, "amplitude": 1.0 },
-        "mountains": { "seed": [RANDOM], "scale": [SCALE], "octaves": [1-16], "persistence": 0.45, "lacunarity": 2.2, "amplitude": 0.7 },
-        "details": { "seed": [RANDOM], "scale": [SCALE], "octaves": [1-16], "persistence": 0.3, "lacunarity": 2.5, "amplitude": 0.1 }
+        "base": { "seed": 0, "scale": [SCALE], "octaves": [1-16], "persistence": 0.5, "lacunarity": 2.0, "amplitude": 0.2 },
+        "mountains": { "seed": 0, "scale": [SCALE], "octaves": [1-16], "persistence": 0.45, "lacunarity": 2.2, "amplitude": 0.5 },
+        "details": { "seed": 0, "scale": [SCALE], "octaves": [1-16], "persistence": 0.3, "lacunarity": 2.5, "amplitude": 0.02 }
     },
     "environment": {
-        "temperature": { "seed": [RANDOM], "scale": [SCALE], "octaves": 4 },
-        "moisture": { "seed": [RANDOM], "scale": [SCALE], "octaves": 4 }
+        "temperature": { "seed": 0, "scale": [SCALE], "octaves": 4 },
+        "moisture": { "seed": 0, "scale": [SCALE], "octaves": 4 }
     },
-    "biomeControl": { "seed": [RANDOM], "scale": [SCALE], "octaves": [1-8] },
+    "biomeControl": { "seed": 0, "scale": [SCALE], "octaves": [1-8] },
     "biomes": [
         { "name": "[NAME]", "controlRange": [-1.0, [SPLIT]], "terrainParams": { "baseHeight": [HEIGHT], "scale": [SCALE], "octaves": [1-16], "persistence": 0.5, "lacunarity": 2.0, "amplitude": [SIZE] }, "colorRamp": [ { "stop": 0, "color": { "r": [0-1], "g": [0-1], "b": [0-1] } }, { "stop": 1, "color": { "r": [0-1], "g": [0-1], "b": [0-1] } } ] },
         { "name": "[NAME]", "controlRange": [[SPLIT], 1.0], "terrainParams": { "baseHeight": [HEIGHT], "scale": [SCALE], "octaves": [1-16], "persistence": 0.5, "lacunarity": 2.0, "amplitude": [SIZE] }, "colorRamp": [ { "stop": 0, "color": { "r": [0-1], "g": [0-1], "b": [0-1] } }, { "stop": 1, "color": { "r": [0-1], "g": [0-1], "b": [0-1] } } ] }
@@ -151,6 +192,9 @@ function validateUnlimitedParameters(params: any): any {
     params.biomeControl = params.biomeControl || {};
     params.biomes = params.biomes || [];
 
+    // One world seed drives every noise layer; per-layer seeds are only salts on top of it
+    params.seed = Number.isFinite(params.seed) ? Math.floor(params.seed) >>> 0 : randomSeed();
+
     // Minimal bounds to prevent crashes - NO creative restrictions
     params.global.width = Math.max(params.global.width || 2000, 100);
     params.global.depth = Math.max(params.global.depth || 2000, 100);
@@ -158,6 +202,51 @@ function validateUnlimitedParameters(params: any): any {
     params.global.segments = Math.min(Math.max(params.global.segments || 1000, 50), 2000);
     params.global.offset = params.global.offset || 0;
 
+    if (params.chunks) {
+        params.chunks.enabled = !!params.chunks.enabled;
+        params.chunks.chunkSize = Math.max(params.chunks.chunkSize || 256, 16);
+        // Power of two so LOD can halve it at every level; at most 256 to keep per-frame generation cheap
+        params.chunks.chunkSegments = Math.pow(2, Math.min(Math.max(Math.round(Math.log2(params.chunks.chunkSegments || 64)), 2), 8));
+        params.chunks.viewDistance = Math.max(params.chunks.viewDistance || 1500, params.chunks.chunkSize);
+        params.chunks.maxChunksPerFrame = Math.min(Math.max(Math.round(params.chunks.maxChunksPerFrame || 2), 1), 8);
+    }
+
+    if (params.lod) {
+        params.lod.enabled = !!params.lod.enabled;
+        params.lod.levels = Math.min(Math.max(Math.round(params.lod.levels || 4), 1), 8);
+        params.lod.levelDistance = Math.max(params.lod.levelDistance || 400, 10);
+        params.lod.patchSize = Math.max(params.lod.patchSize || 256, 16);
+        // Patch resolution must halve cleanly at every level
+        params.lod.patchSegments = Math.pow(2, Math.min(Math.max(Math.round(Math.log2(params.lod.patchSegments || 64)), 2), 8));
+    }
+
+    if (params.erosion) {
+        params.erosion.enabled = !!params.erosion.enabled;
+        params.erosion.iterations = Math.min(Math.max(Math.round(params.erosion.iterations || 100000), 0), 2000000); // Keep generation time bounded
+        params.erosion.rainAmount = Math.max(params.erosion.rainAmount || 1, 0.01);
+        params.erosion.sedimentCapacity = Math.max(params.erosion.sedimentCapacity || 4, 0);
+        for (const rate of ['erosionRate', 'depositionRate', 'evaporationRate']) {
+            if (params.erosion[rate] !== undefined) params.erosion[rate] = Math.min(Math.max(params.erosion[rate], 0), 1);
+        }
+        params.erosion.thermalIterations = Math.min(Math.max(Math.round(params.erosion.thermalIterations || 0), 0), 200);
+        params.erosion.talusAngle = Math.min(Math.max(params.erosion.talusAngle || 35, 1), 89);
+    }
+
+    if (params.water) {
+        params.water.enabled = !!params.water.enabled;
+        params.water.hasOcean = params.water.hasOcean !== undefined ? !!params.water.hasOcean : true;
+        params.water.oceanLevel = Number.isFinite(params.water.oceanLevel) ? params.water.oceanLevel : 0; // Any height, including negative
+        params.water.riverDensity = Math.min(Math.max(params.water.riverDensity ?? 0.5, 0), 1);
+        params.water.lakeDensity = Math.min(Math.max(params.water.lakeDensity ?? 0.3, 0), 1);
+        params.water.waterfallThreshold = Math.max(params.water.waterfallThreshold || 15, 0.1);
+        params.water.precipitation = Math.min(Math.max(params.water.precipitation ?? 0.5, 0), 1);
+        params.water.resolution = Math.min(Math.max(Math.round(params.water.resolution || 256), 32), 512); // Simulation cost grows with resolution^2
+        params.water.carve = params.water.carve !== undefined ? !!params.water.carve : true;
+        if (params.water.riverDepth !== undefined) params.water.riverDepth = Math.min(Math.max(Number(params.water.riverDepth) || 0, 0), 100);
+        if (params.water.riverWidth !== undefined) params.water.riverWidth = Math.min(Math.max(Number(params.water.riverWidth) || 0, 1), 500);
+        if (params.water.bankWidth !== undefined) params.water.bankWidth = Math.min(Math.max(Number(params.water.bankWidth) || 0, 0), 500);
+    }
+
     const safeColor = (color: any, fallback = { r: 0.5, g: 0.5, b: 0.5 }) => {
         if (!color) color = fallback;
         let r = typeof color.r === 'number' ? color.r : fallback.r;
@@ -176,11 +265,29 @@ function validateUnlimitedParameters(params: any): any {
         };
     };
 
+    // Fog blocks (world and per-biome): every field is optional
+    const safeFog = (fog: any) => {
+        if (fog.color) fog.color = safeColor(fog.color, { r: 0.7, g: 0.75, b: 0.8 });
+        if (fog.density !== undefined) fog.density = Math.min(Math.max(Number(fog.density) || 0, 0), 0.05);
+        if (fog.heightFalloff !== undefined) fog.heightFalloff = Math.min(Math.max(Number(fog.heightFalloff) || 0, 0), 1);
+        if (fog.baseHeight !== undefined) fog.baseHeight = Number(fog.baseHeight) || 0;
+        return fog;
+    };
+    if (params.fog) params.fog = safeFog(params.fog);
+
     // Color validation only (no creative restrictions)
+    if (params.water?.color) params.water.color = safeColor(params.water.color, { r: 0.05, g: 0.35, b: 0.5 });
+    if (params.water?.sedimentColor) params.water.sedimentColor = safeColor(params.water.sedimentColor, { r: 0.45, g: 0.4, b: 0.3 });
+
     params.skybox.horizonColor = safeColor(params.skybox.horizonColor, { r: 0.6, g: 0.8, b: 1.0 });
     params.skybox.zenithColor = safeColor(params.skybox.zenithColor, { r: 0.0, g: 0.1, b: 0.35 });
     params.skybox.atmosphereColor = safeColor(params.skybox.atmosphereColor, { r: 0.5, g: 0.5, b: 0.7 });
     params.skybox.atmosphereStrength = Math.max(params.skybox.atmosphereStrength || 0.05, 0);
+    params.skybox.model = params.skybox.model === 'scattering' ? 'scattering' : 'gradient';
+    if (params.skybox.planetRadius !== undefined) params.skybox.planetRadius = Math.min(Math.max(Number(params.skybox.planetRadius) || 6371, 50), 100000);
+    if (params.skybox.turbidity !== undefined) params.skybox.turbidity = Math.min(Math.max(Number(params.skybox.turbidity) || 2, 0), 50);
+    if (params.skybox.ozone !== undefined) params.skybox.ozone = Math.min(Math.max(Number(params.skybox.ozone) || 0, 0), 20);
+    if (params.skybox.sunIntensity !== undefined) params.skybox.sunIntensity = Math.min(Math.max(Number(params.skybox.sunIntensity) || 20, 0), 200);
 
     params.lighting.ambient.color = safeColor(params.lighting.ambient.color, { r: 0.1, g: 0.1, b: 0.2 });
     params.lighting.ambient.intensity = Math.max(params.lighting.ambient.intensity !== undefined ? params.lighting.ambient.intensity : 0.3, 0);
@@ -190,29 +297,146 @@ function validateUnlimitedParameters(params: any): any {
     // Ensure position exists
     params.lighting.directional.position = params.lighting.directional.position || { x: 100, y: 100, z: 50 };
 
-    const safeNoise = (layer: any) => {
+    if (params.shadows) {
+        params.shadows.enabled = params.shadows.enabled !== undefined ? !!params.shadows.enabled : true;
+        params.shadows.cascades = Math.min(Math.max(Math.round(params.shadows.cascades || 3), 1), 4);
+        // Power of two between 512 and 4096
+        params.shadows.mapSize = Math.pow(2, Math.min(Math.max(Math.round(Math.log2(params.shadows.mapSize || 2048)), 9), 12));
+        params.shadows.maxDistance = Math.min(Math.max(params.shadows.maxDistance || 1500, 50), 20000);
+    }
+
+    if (params.postProcessing) {
+        const post = params.postProcessing;
+        post.enabled = post.enabled !== undefined ? !!post.enabled : true;
+        if (!['aces', 'agx', 'neutral', 'none'].includes(post.toneMapping)) post.toneMapping = 'aces';
+        if (post.exposure !== undefined) post.exposure = Math.min(Math.max(Number(post.exposure) || 1, 0.05), 10);
+        if (post.bloom) {
+            post.bloom.enabled = post.bloom.enabled !== undefined ? !!post.bloom.enabled : true;
+            if (post.bloom.strength !== undefined) post.bloom.strength = Math.min(Math.max(Number(post.bloom.strength) || 0, 0), 5);
+            if (post.bloom.radius !== undefined) post.bloom.radius = Math.min(Math.max(Number(post.bloom.radius) || 0, 0), 1);
+            if (post.bloom.threshold !== undefined) post.bloom.threshold = Math.min(Math.max(Number(post.bloom.threshold) || 0, 0), 10);
+        }
+        if (post.ssao) {
+            post.ssao.enabled = post.ssao.enabled !== undefined ? !!post.ssao.enabled : true;
+            if (post.ssao.radius !== undefined) post.ssao.radius = Math.min(Math.max(Number(post.ssao.radius) || 16, 1), 200);
+        }
+        const grading = post.colorGrading;
+        if (grading) {
+            if (grading.saturation !== undefined) grading.saturation = Math.min(Math.max(Number(grading.saturation) || 0, 0), 3);
+            if (grading.contrast !== undefined) grading.contrast = Math.min(Math.max(Number(grading.contrast) || 1, 0.1), 3);
+            if (grading.temperature !== undefined) grading.temperature = Math.min(Math.max(Number(grading.temperature) || 0, -1), 1);
+            if (grading.intensity !== undefined) grading.intensity = Math.min(Math.max(Number(grading.intensity) || 0, 0), 1);
+            if (grading.shadowTint) grading.shadowTint = safeColor(grading.shadowTint, { r: 1, g: 1, b: 1 });
+            if (grading.highlightTint) grading.highlightTint = safeColor(grading.highlightTint, { r: 1, g: 1, b: 1 });
+        }
+    }
+
+    // Optional hour for the day/night cycle, wrapped into 0-24
+    if (params.timeOfDay !== undefined) {
+        const hour = Number(params.timeOfDay);
+        if (Number.isFinite(hour)) params.timeOfDay = normalizeHour(hour);
+        else delete params.timeOfDay;
+    }
+
+    const noiseTypes = ['perlin', 'simplex', 'opensimplex2', 'value', 'worley'];
+    const cellularOutputs = ['f1', 'f2', 'f2-f1'];
+    const fractalTypes = ['fbm', 'ridged', 'billow', 'hybrid', 'heterogeneous'];
+    // Unknown noise and fractal types fall back to the defaults; cellular options only matter for Worley layers
+    const safeNoiseShape = (layer: any) => {
+        if (!noiseTypes.includes(layer.type)) delete layer.type;
+        if (!fractalTypes.includes(layer.fractal)) delete layer.fractal;
+        if (layer.warp && typeof layer.warp === 'object' && Number(layer.warp.strength) > 0) {
+            layer.warp.strength = Number(layer.warp.strength);
+            if (layer.warp.scale !== undefined) layer.warp.scale = Math.max(Number(layer.warp.scale) || layer.scale, 0.000001);
+            if (layer.warp.octaves !== undefined) layer.warp.octaves = Math.min(Math.max(Math.round(Number(layer.warp.octaves) || 2), 1), 8);
+        } else {
+            delete layer.warp;
+        }
+        if (layer.type !== 'worley' || !layer.cellular || typeof layer.cellular !== 'object') {
+            delete layer.cellular;
+            return;
+        }
+        if (!cellularOutputs.includes(layer.cellular.output)) delete layer.cellular.output;
+        if (layer.cellular.jitter !== undefined) layer.cellular.jitter = Math.min(Math.max(Number(layer.cellular.jitter) || 0, 0), 1);
+    };
+
+    // Biome shaping: drop malformed operators and sort curves by input (the sampler expects them sorted)
+    const safeShape = (shape: any) => {
+        if (!shape || typeof shape !== 'object') return undefined;
+        if (Array.isArray(shape.curve)) {
+            shape.curve = shape.curve
+                .filter((point: any) => Array.isArray(point) && point.length === 2 && point.every(Number.isFinite))
+                .sort((a: number[], b: number[]) => a[0] - b[0]);
+        }
+        if (!Array.isArray(shape.curve) || shape.curve.length === 0) delete shape.curve;
+        if (shape.terrace) {
+            shape.terrace.step = Number(shape.terrace.step);
+            if (!(shape.terrace.step > 0)) delete shape.terrace;
+            else if (shape.terrace.sharpness !== undefined) shape.terrace.sharpness = Math.min(Math.max(Number(shape.terrace.sharpness) || 0, 0), 1);
+        }
+        if (shape.plateau && !Number.isFinite(Number(shape.plateau.height))) delete shape.plateau;
+        if (shape.plateau) {
+            shape.plateau.height = Number(shape.plateau.height);
+            if (shape.plateau.smoothness !== undefined) shape.plateau.smoothness = Math.max(Number(shape.plateau.smoothness) || 0, 0);
+        }
+        if (shape.canyon) {
+            shape.canyon.depth = Number(shape.canyon.depth);
+            if (!(shape.canyon.depth > 0)) delete shape.canyon;
+            else {
+                if (shape.canyon.width !== undefined) shape.canyon.width = Math.min(Math.max(Number(shape.canyon.width) || 0.03, 0.005), 0.5);
+                if (shape.canyon.scale !== undefined) shape.canyon.scale = Math.max(Number(shape.canyon.scale) || 0.001, 0.000001);
+            }
+        }
+        return Object.keys(shape).length > 0 ? shape : undefined;
+    };
+
+    const safeNoise = (layer: any, defaultAmplitude = 50) => {
         layer = layer || {};
-        layer.seed = layer.seed !== undefined ? layer.seed : Math.floor(Math.random() * 65536);
+        layer.seed = layer.seed !== undefined ? layer.seed : 0;
         layer.scale = Math.max(layer.scale || 0.01, 0.000001); // Prevent divide by zero only
         layer.octaves = Math.min(Math.max(Math.round(layer.octaves || 4), 1), 16); // Prevent performance issues only
         layer.persistence = Math.min(Math.max(layer.persistence || 0.5, 0.01), 0.99); // Prevent instability only
         layer.lacunarity = Math.max(layer.lacunarity || 2.0, 1.01); // Prevent infinite loops only
-        layer.amplitude = layer.amplitude !== undefined ? layer.amplitude : 50; // NO LIMITS!
+        layer.amplitude = layer.amplitude !== undefined ? layer.amplitude : defaultAmplitude; // NO LIMITS!
         layer.baseHeight = layer.baseHeight !== undefined ? layer.baseHeight : 0; // NO LIMITS!
+        safeNoiseShape(layer);
         return layer;
     };
 
     // Apply minimal safety validation only
-    params.terrain.base = safeNoise(params.terrain.base);
-    params.terrain.mountains = safeNoise(params.terrain.mountains);
-    params.terrain.details = safeNoise(params.terrain.details);
+    // Terrain layer amplitudes are fractions of maxHeight, not world units
+    params.terrain.base = safeNoise(params.terrain.base, 0.2);
+    params.terrain.mountains = safeNoise(params.terrain.mountains, 0.5);
+    params.terrain.details = safeNoise(params.terrain.details, 0.02);
 
     params.environment.temperature = safeNoise(params.environment.temperature);
     params.environment.moisture = safeNoise(params.environment.moisture);
 
-    params.biomeControl.seed = params.biomeControl.seed !== undefined ? params.biomeControl.seed : Math.floor(Math.random() * 65536);
+    params.biomeControl.seed = params.biomeControl.seed !== undefined ? params.biomeControl.seed : 0;
     params.biomeControl.scale = Math.max(params.biomeControl.scale || 0.001, 0.000001);
     params.biomeControl.octaves = Math.min(Math.max(Math.round(params.biomeControl.octaves || 2), 1), 8);
+    params.biomeControl.mode = params.biomeControl.mode === 'climate' ? 'climate' : 'range';
+    safeNoiseShape(params.biomeControl);
+
+    // Height graph: drop malformed nodes; wiring mistakes are caught when the world is built (it then falls back)
+    if (params.heightGraph !== undefined) {
+        const graph = params.heightGraph;
+        if (!graph || !Array.isArray(graph.nodes) || typeof graph.output !== 'string') {
+            delete params.heightGraph;
+        } else {
+            const nodeTypes = Object.keys(HEIGHT_NODE_INPUTS);
+            graph.nodes = graph.nodes.filter((node: any) => node && typeof node.id === 'string' && nodeTypes.includes(node.type));
+            graph.nodes.forEach((node: any) => {
+                node.inputs = Array.isArray(node.inputs) ? node.inputs.map(String) : undefined;
+                if (node.type === 'noise') node.noise = safeNoise(node.noise, 1);
+                if (node.type === 'curve' && !Array.isArray(node.points)) node.points = [[0, 0], [1, 1]];
+                if (node.type === 'terrace') {
+                    node.step = Math.max(Number(node.step) || 10, 0.01);
+                    if (node.sharpness !== undefined) node.sharpness = Math.min(Math.max(Number(node.sharpness) || 0, 0), 1);
+                }
+            });
+        }
+    }
 
     // Ensure at least one biome
     if (params.biomes.length === 0) {
@@ -230,7 +454,60 @@ function validateUnlimitedParameters(params: any): any {
         biome.controlRange[0] = Math.min(Math.max(biome.controlRange[0], -1.0), 1.0);
         biome.controlRange[1] = Math.min(Math.max(biome.controlRange[1], -1.0), 1.0);
 
+        if (biome.climate) {
+            for (const axis of ['temperature', 'moisture', 'elevation']) {
+                const range = biome.climate[axis];
+                if (!Array.isArray(range) || range.length !== 2) {
+                    delete biome.climate[axis];
+                    continue;
+                }
+                const low = Math.min(Math.max(Math.min(range[0], range[1]) || 0, 0), 1);
+                const high = Math.min(Math.max(Math.max(range[0], range[1]) || 0, 0), 1);
+                biome.climate[axis] = [low, high];
+            }
+        }
+
+        if (biome.transitionWidth !== undefined) {
+            biome.transitionWidth = Math.min(Math.max(Number(biome.transitionWidth) || 0.1, 0.001), 1);
+        }
+
         biome.terrainParams = safeNoise(biome.terrainParams);
+        if (biome.terrainParams.shape !== undefined) biome.terrainParams.shape = safeShape(biome.terrainParams.shape);
+        if (!biome.terrainParams.shape) delete biome.terrainParams.shape;
+        if (biome.fog) biome.fog = safeFog(biome.fog);
+
+        const presets = ['grass', 'rock', 'sand', 'snow', 'dirt', 'gravel', 'mud', 'ash', 'moss', 'ice'];
+        const safeRange = (range: any, min: number, max: number) => {
+            if (!Array.isArray(range) || range.length !== 2) return undefined;
+            const low = Math.min(Math.max(Math.min(range[0], range[1]) || 0, min), max);
+            const high = Math.min(Math.max(Math.max(range[0], range[1]) || 0, min), max);
+            return [low, high];
+        };
+
+        if (biome.textures !== undefined) {
+            biome.textures = (Array.isArray(biome.textures) ? biome.textures : []).filter((layer: any) => layer && typeof layer === 'object');
+            biome.textures.forEach((layer: any) => {
+                if (!presets.includes(layer.preset)) layer.preset = layer.albedo ? undefined : 'rock';
+                if (layer.scale !== undefined) layer.scale = Math.min(Math.max(Number(layer.scale) || 8, 0.5), 500);
+                if (layer.tint) layer.tint = safeColor(layer.tint, { r: 1, g: 1, b: 1 });
+                layer.height = safeRange(layer.height, 0, 1);
+                layer.slope = safeRange(layer.slope, 0, 90);
+            });
+        }
+
+        if (biome.colorRules !== undefined) {
+            biome.colorRules = (Array.isArray(biome.colorRules) ? biome.colorRules : []).filter((rule: any) => rule && typeof rule === 'object');
+            biome.colorRules.forEach((rule: any) => {
+                rule.color = safeColor(rule.color);
+                rule.slope = safeRange(rule.slope, 0, 90);
+                rule.altitude = safeRange(rule.altitude, -Infinity, Infinity);
+                if (rule.nearWater !== undefined) rule.nearWater = Math.max(Number(rule.nearWater) || 0, 0);
+                if (rule.blend !== undefined) rule.blend = Math.max(Number(rule.blend) || 0, 0.001);
+                if (rule.dither !== undefined) rule.dither = Math.max(Number(rule.dither) || 0, 0);
+                if (rule.strength !== undefined) rule.strength = Math.min(Math.max(Number(rule.strength) || 0, 0), 1);
+                if (rule.texture !== undefined && !presets.includes(rule.texture)) delete rule.texture;
+            });
+        }
 
         biome.colorRamp = biome.colorRamp || [{ stop: 0, color: { r: 1, g: 0, b: 1 } }];
         biome.colorRamp.forEach((stop: any) => {
@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { getSketchfabModelDownloadUrl } from './sketchfab';
 import type { TerrainGenerator } from './terrain';
+import { mulberry32, deriveSeed } from './random';
 
 declare const zip: any;
 
@@ -599,17 +600,21 @@ export class AssetManager {
     /**
      * Get asset placement suggestions based on terrain
      */
-    suggestPlacement(_metadata: AssetMetadata): THREE.Vector3[] {
+    suggestPlacement(metadata: AssetMetadata): THREE.Vector3[] {
         const suggestions: THREE.Vector3[] = [];
         const worldSize = 20000; // Match terrain size
         const numSuggestions = 5;
 
         console.log('Terrain generator available:', !!this.terrainGenerator);
 
+        // Scatter is seeded from the world, so the same world suggests the same spots for an asset
+        const worldSeed = this.terrainGenerator?.terrainParams.seed ?? 0;
+        const random = mulberry32(deriveSeed(worldSeed, `scatter:${metadata.id}`));
+
         for (let i = 0; i < numSuggestions; i++) {
             // Random position within terrain bounds
-            const x = (Math.random() - 0.5) * worldSize * 0.8; // Keep away from edges
-            const z = (Math.random() - 0.5) * worldSize * 0.8;
+            const x = (random() - 0.5) * worldSize * 0.8; // Keep away from edges
+            const z = (random() - 0.5) * worldSize * 0.8;
             
             // Get terrain height at this position if terrain generator is available
             let y = 100; // Default height well above ground
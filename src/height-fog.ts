@@ -0,0 +1,182 @@
+/**
+ * Height Fog
+ *
+ * Exponential fog that is thickest in the lowlands and thins with altitude, so
+ * valleys fill with mist while peaks stay clear. Replaces three's exponential
+ * fog chunks, which means every material with fog enabled picks it up:
+ * - Density falls off exponentially above a base height and is integrated
+ *   along the view ray, so looking down into a valley shows more fog than
+ *   looking across at a mountain top
+ * - Colour, density and falloff default from the skybox, can be set by the
+ *   world's fog block, and blend towards a biome's own fog near the camera
+ */
+
+import * as THREE from 'three';
+import type { FogParams, BiomeProfile, FullTerrainParameters } from './types';
+import type { BiomeWeight } from './terrain-sampler';
+import type { MaterialPatch } from './material-patches';
+
+type SkyboxParams = FullTerrainParameters['skybox'];
+
+export interface FogSettings {
+    color: THREE.Color;
+    density: number;
+    heightFalloff: number;
+    baseHeight: number;
+}
+
+export const DEFAULT_FOG_DENSITY = 0.0001;      // Roughly the old 1000-10000 linear fog
+export const DEFAULT_FOG_HEIGHT_FALLOFF = 0.002; // Fog halves about every 350 units of height
+export const DEFAULT_FOG_BASE_HEIGHT = 0;
+
+const BIOME_FOG_RESPONSE = 1.5;  // How quickly the fog eases towards the biome under the camera (per second)
+
+// World position per vertex for the ray integral (view matrix inverted by transposing its rotation)
+THREE.ShaderChunk.fog_pars_vertex = /* glsl */`
+#ifdef USE_FOG
+    varying float vFogDepth;
+    varying vec3 vFogWorldPosition;
+#endif
+`;
+
+THREE.ShaderChunk.fog_vertex = /* glsl */`
+#ifdef USE_FOG
+    vFogDepth = - mvPosition.z;
+    vFogWorldPosition = ( mvPosition.xyz - viewMatrix[ 3 ].xyz ) * mat3( viewMatrix );
+#endif
+`;
+
+THREE.ShaderChunk.fog_pars_fragment = /* glsl */`
+#ifdef USE_FOG
+    uniform vec3 fogColor;
+    varying float vFogDepth;
+    varying vec3 vFogWorldPosition;
+    #ifdef FOG_EXP2
+        uniform float fogDensity;
+        uniform float fogHeightFalloff;
+        uniform float fogBaseHeight;
+    #else
+        uniform float fogNear;
+        uniform float fogFar;
+    #endif
+#endif
+`;
+
+// Materials that never got the height uniforms see a falloff of 0, which is plain exponential fog
+THREE.ShaderChunk.fog_fragment = /* glsl */`
+#ifdef USE_FOG
+    #ifdef FOG_EXP2
+        vec3 fogRay = vFogWorldPosition - cameraPosition;
+        float fogRise = fogHeightFalloff * fogRay.y;
+        float fogSpread = abs( fogRise ) > 1e-4 ? ( 1.0 - exp( - fogRise ) ) / fogRise : 1.0;
+        float fogAmount = fogDensity * length( fogRay ) * exp( - fogHeightFalloff * ( cameraPosition.y - fogBaseHeight ) ) * fogSpread;
+        float fogFactor = 1.0 - exp( - fogAmount );
+    #else
+        float fogFactor = smoothstep( fogNear, fogFar, vFogDepth );
+    #endif
+    gl_FragColor.rgb = mix( gl_FragColor.rgb, fogColor, fogFactor );
+#endif
+`;
+
+/**
+ * The fog a world asked for, with anything missing taken from its skybox: the
+ * colour is the hazy horizon and thicker atmospheres get denser fog.
+ */
+export function resolveFogSettings(fog: FogParams | undefined, skybox: SkyboxParams | null): FogSettings {
+    const color = new THREE.Color(0x87CEEB);
+    if (fog?.color) {
+        color.setRGB(fog.color.r, fog.color.g, fog.color.b);
+    } else if (skybox) {
+        color.setRGB(skybox.horizonColor.r, skybox.horizonColor.g, skybox.horizonColor.b)
+            .lerp(new THREE.Color(skybox.atmosphereColor.r, skybox.atmosphereColor.g, skybox.atmosphereColor.b), Math.min(skybox.atmosphereStrength, 1));
+    }
+
+    return {
+        color,
+        density: fog?.density ?? DEFAULT_FOG_DENSITY * (1 + (skybox?.atmosphereStrength ?? 0) * 2),
+        heightFalloff: fog?.heightFalloff ?? DEFAULT_FOG_HEIGHT_FALLOFF,
+        baseHeight: fog?.baseHeight ?? DEFAULT_FOG_BASE_HEIGHT
+    };
+}
+
+// World fog overridden by any biome fog, weighted by how much of each biome is under the camera
+export function blendBiomeFog(world: FogSettings, weights: BiomeWeight[]): FogSettings {
+    const blended: FogSettings = { color: new THREE.Color(0, 0, 0), density: 0, heightFalloff: 0, baseHeight: 0 };
+    for (const { biome, weight } of weights) {
+        const fog = biomeFog(world, biome);
+        blended.color.r += fog.color.r * weight;
+        blended.color.g += fog.color.g * weight;
+        blended.color.b += fog.color.b * weight;
+        blended.density += fog.density * weight;
+        blended.heightFalloff += fog.heightFalloff * weight;
+        blended.baseHeight += fog.baseHeight * weight;
+    }
+    return weights.length > 0 ? blended : world;
+}
+
+function biomeFog(world: FogSettings, biome: BiomeProfile): FogSettings {
+    if (!biome.fog) return world;
+    return {
+        color: biome.fog.color ? new THREE.Color(biome.fog.color.r, biome.fog.color.g, biome.fog.color.b) : world.color,
+        density: biome.fog.density ?? world.density,
+        heightFalloff: biome.fog.heightFalloff ?? world.heightFalloff,
+        baseHeight: biome.fog.baseHeight ?? world.baseHeight
+    };
+}
+
+/**
+ * Scene fog for the height fog chunks. Its density and colour go through
+ * three's own fog uniforms; the height terms are shared uniforms added to each
+ * fogged material through the scene's material patches.
+ */
+export class HeightFog extends THREE.FogExp2 implements MaterialPatch {
+    readonly isHeightFog = true;
+    readonly cacheKey = 'heightFog';
+    heightFalloff = DEFAULT_FOG_HEIGHT_FALLOFF;
+    baseHeight = DEFAULT_FOG_BASE_HEIGHT;
+
+    private uniforms = {
+        fogHeightFalloff: { value: DEFAULT_FOG_HEIGHT_FALLOFF },
+        fogBaseHeight: { value: DEFAULT_FOG_BASE_HEIGHT }
+    };
+    private target: FogSettings | null = null;
+
+    constructor(color: THREE.ColorRepresentation) {
+        super(color, DEFAULT_FOG_DENSITY);
+    }
+
+    // Fog to ease towards over the next frames
+    setTarget(settings: FogSettings): void {
+        this.target = settings;
+    }
+
+    // Jump straight to `settings` (new worlds shouldn't fade in from the old one)
+    set(settings: FogSettings): void {
+        this.target = settings;
+        this.color.copy(settings.color);
+        this.density = settings.density;
+        this.heightFalloff = settings.heightFalloff;
+        this.baseHeight = settings.baseHeight;
+    }
+
+    update(deltaSeconds: number): void {
+        if (this.target) {
+            const alpha = 1 - Math.exp(-BIOME_FOG_RESPONSE * deltaSeconds);
+            this.color.lerp(this.target.color, alpha);
+            this.density += (this.target.density - this.density) * alpha;
+            this.heightFalloff += (this.target.heightFalloff - this.heightFalloff) * alpha;
+            this.baseHeight += (this.target.baseHeight - this.baseHeight) * alpha;
+        }
+        this.uniforms.fogHeightFalloff.value = this.heightFalloff;
+        this.uniforms.fogBaseHeight.value = this.baseHeight;
+    }
+
+    appliesTo(material: THREE.Material): boolean {
+        return 'fog' in material && !!material.fog;
+    }
+
+    setup(): THREE.Material['onBeforeCompile'] {
+        const uniforms = this.uniforms;
+        return shader => { Object.assign(shader.uniforms, uniforms); };
+    }
+}
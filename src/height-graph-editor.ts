@@ -0,0 +1,577 @@
+/**
+ * Height Graph Editor
+ *
+ * Panel for building a terrain height graph (see terrain-height-graph) by hand:
+ * add nodes, drag them around, wire an output port (right) into an input port
+ * (left), edit the selected node's settings, and apply the graph to regenerate
+ * the world. Clicking a connected input port unplugs it. The graph can also be
+ * copied out or pasted in as JSON.
+ */
+
+import { compileHeightGraph, DEFAULT_HEIGHT_GRAPH, HEIGHT_NODE_INPUTS } from './terrain-height-graph';
+import type { HeightGraphSource } from './terrain-height-graph';
+import type { HeightGraph, HeightNode, HeightNodeType, NoiseParams } from './types';
+
+// Node layout in canvas pixels (wires are drawn from these, not measured from the DOM)
+const NODE_WIDTH = 150;
+const HEADER_HEIGHT = 26;
+const PORT_ROW_HEIGHT = 20;
+const CANVAS_SIZE = [1600, 1000];
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Stand-in terrain for checking a graph before it is applied
+const CHECK_SOURCE: HeightGraphSource = {
+    sampleBiomeHeight: () => 0,
+    sampleLayerHeight: () => 0,
+    sampleBiomeWeight: () => 0
+};
+
+// Settings a freshly added node starts with
+function createNode(type: HeightNodeType, id: string, position: [number, number], biomeNames: string[]): HeightNode {
+    const ports = HEIGHT_NODE_INPUTS[type];
+    const node: HeightNode = { id, type, position };
+    if (ports !== 'many' && ports.length > 0) node.inputs = ports.map(() => '');
+    if (ports === 'many') node.inputs = [];
+    switch (type) {
+        case 'noise': node.noise = { scale: 0.005, octaves: 4, amplitude: 50 }; break;
+        case 'constant': node.value = 0; break;
+        case 'biomeMask': node.biome = biomeNames[0] ?? ''; break;
+        case 'curve': node.points = [[0, 0], [100, 100]]; break;
+        case 'remap': node.from = [-1, 1]; node.to = [0, 100]; break;
+        case 'terrace': node.step = 20; node.sharpness = 0.5; break;
+        case 'clamp': node.min = 0; break;
+    }
+    return node;
+}
+
+export class HeightGraphEditor {
+    private container: HTMLElement;
+    private onApply: (graph: HeightGraph | null) => void;
+    private panel?: HTMLElement;
+    private canvas?: HTMLElement;
+    private wires?: SVGSVGElement;
+    private inspector?: HTMLElement;
+    private message?: HTMLElement;
+    private graph: HeightGraph = structuredClone(DEFAULT_HEIGHT_GRAPH);
+    private biomeNames: string[] = [];
+    private selectedId: string | null = null;
+    private pendingWire: SVGPathElement | null = null;
+
+    // onApply gets the graph to build the world with, or null to go back to the default height
+    constructor(onApply: (graph: HeightGraph | null) => void, container: HTMLElement = document.body) {
+        this.onApply = onApply;
+        this.container = container;
+    }
+
+    // Open on the world's current graph (a copy; nothing changes until Apply), or close
+    toggle(graph: HeightGraph | undefined, biomeNames: string[]) {
+        if (this.panel) {
+            this.panel.remove();
+            this.panel = undefined;
+            return;
+        }
+        this.graph = structuredClone(graph ?? DEFAULT_HEIGHT_GRAPH);
+        this.biomeNames = biomeNames;
+        this.selectedId = null;
+        this.layoutUnplacedNodes();
+        this.createPanel();
+        this.render();
+    }
+
+    private createPanel() {
+        this.panel = document.createElement('div');
+        this.panel.style.position = 'fixed';
+        this.panel.style.left = '10px';
+        this.panel.style.bottom = '10px';
+        this.panel.style.width = 'min(960px, calc(100vw - 20px))';
+        this.panel.style.height = '480px';
+        this.panel.style.display = 'flex';
+        this.panel.style.flexDirection = 'column';
+        this.panel.style.background = 'rgba(0,0,0,0.85)';
+        this.panel.style.color = 'white';
+        this.panel.style.zIndex = '1000';
+        this.panel.style.padding = '10px';
+        this.panel.style.borderRadius = '6px';
+        this.panel.style.boxShadow = '0 6px 18px rgba(0,0,0,0.6)';
+        this.panel.style.fontSize = '12px';
+        // Typing in the fields shouldn't move the camera
+        this.panel.addEventListener('keydown', event => event.stopPropagation());
+
+        const toolbar = document.createElement('div');
+        toolbar.style.display = 'flex';
+        toolbar.style.alignItems = 'center';
+        toolbar.style.flexWrap = 'wrap';
+        const title = document.createElement('strong');
+        title.textContent = 'Height Graph';
+        title.style.marginRight = '10px';
+        toolbar.appendChild(title);
+
+        const typeSelect = document.createElement('select');
+        for (const type of Object.keys(HEIGHT_NODE_INPUTS)) {
+            const option = document.createElement('option');
+            option.value = type;
+            option.textContent = type;
+            typeSelect.appendChild(option);
+        }
+        toolbar.appendChild(typeSelect);
+        toolbar.appendChild(this.createToolButton('Add', () => this.addNode(typeSelect.value as HeightNodeType)));
+        toolbar.appendChild(this.createToolButton('JSON', () => this.toggleJson()));
+        toolbar.appendChild(this.createToolButton('Reset', () => {
+            this.graph = structuredClone(DEFAULT_HEIGHT_GRAPH);
+            this.selectedId = null;
+            this.render();
+        }));
+        toolbar.appendChild(this.createToolButton('Apply', () => this.apply()));
+        toolbar.appendChild(this.createToolButton('Remove Graph', () => this.onApply(null)));
+        toolbar.appendChild(this.createToolButton('Close', () => this.toggle(undefined, [])));
+        this.panel.appendChild(toolbar);
+
+        this.message = document.createElement('div');
+        this.message.style.minHeight = '16px';
+        this.message.style.margin = '4px 0';
+        this.panel.appendChild(this.message);
+
+        const body = document.createElement('div');
+        body.style.display = 'flex';
+        body.style.flex = '1';
+        body.style.minHeight = '0';
+
+        const scroller = document.createElement('div');
+        scroller.style.flex = '1';
+        scroller.style.overflow = 'auto';
+        scroller.style.background = '#151515';
+        scroller.style.borderRadius = '4px';
+        this.canvas = document.createElement('div');
+        this.canvas.style.position = 'relative';
+        this.canvas.style.width = `${CANVAS_SIZE[0]}px`;
+        this.canvas.style.height = `${CANVAS_SIZE[1]}px`;
+        this.canvas.addEventListener('pointerdown', event => {
+            if (event.target === this.canvas || event.target === this.wires) this.select(null);
+        });
+        this.wires = document.createElementNS(SVG_NS, 'svg');
+        this.wires.setAttribute('width', String(CANVAS_SIZE[0]));
+        this.wires.setAttribute('height', String(CANVAS_SIZE[1]));
+        this.wires.style.position = 'absolute';
+        this.wires.style.left = '0';
+        this.wires.style.top = '0';
+        this.canvas.appendChild(this.wires);
+        scroller.appendChild(this.canvas);
+        body.appendChild(scroller);
+
+        this.inspector = document.createElement('div');
+        this.inspector.style.width = '220px';
+        this.inspector.style.marginLeft = '10px';
+        this.inspector.style.overflow = 'auto';
+        body.appendChild(this.inspector);
+        this.panel.appendChild(body);
+
+        this.container.appendChild(this.panel);
+    }
+
+    private createToolButton(text: string, onClick: () => void) {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.style.padding = '4px 8px';
+        button.addEventListener('click', onClick);
+        return button;
+    }
+
+    private showMessage(text: string, isError = false) {
+        if (!this.message) return;
+        this.message.textContent = text;
+        this.message.style.color = isError ? '#ff6b6b' : '#aaa';
+    }
+
+    // Check the graph, then hand a copy over (the editor keeps working on its own)
+    private apply() {
+        try {
+            compileHeightGraph(this.graph, 0, CHECK_SOURCE);
+        } catch (error) {
+            this.showMessage(error instanceof Error ? error.message : String(error), true);
+            return;
+        }
+        this.showMessage('Applied - regenerating terrain...');
+        this.onApply(structuredClone(this.graph));
+    }
+
+    private toggleJson() {
+        if (!this.inspector) return;
+        this.select(null);
+        this.inspector.innerHTML = '';
+        const textarea = document.createElement('textarea');
+        textarea.value = JSON.stringify(this.graph, null, 2);
+        textarea.style.width = '100%';
+        textarea.style.height = '340px';
+        textarea.style.fontFamily = 'monospace';
+        textarea.style.fontSize = '11px';
+        this.inspector.appendChild(textarea);
+        this.inspector.appendChild(this.createToolButton('Load', () => {
+            try {
+                const graph = JSON.parse(textarea.value);
+                if (!Array.isArray(graph.nodes) || typeof graph.output !== 'string') throw new Error('A graph needs "nodes" and "output"');
+                this.graph = graph;
+                this.layoutUnplacedNodes();
+                this.showMessage('Graph loaded');
+                this.render();
+            } catch (error) {
+                this.showMessage(error instanceof Error ? error.message : String(error), true);
+            }
+        }));
+    }
+
+    // Nodes from hand-written or generated JSON get a grid position
+    private layoutUnplacedNodes() {
+        this.graph.nodes.forEach((node, index) => {
+            if (!node.position) node.position = [40 + (index % 4) * 200, 40 + Math.floor(index / 4) * 150];
+        });
+    }
+
+    private addNode(type: HeightNodeType) {
+        let count = 1;
+        while (this.graph.nodes.some(node => node.id === `${type}${count}`)) count++;
+        const scroller = this.canvas?.parentElement;
+        const position: [number, number] = [(scroller?.scrollLeft ?? 0) + 60, (scroller?.scrollTop ?? 0) + 60];
+        const node = createNode(type, `${type}${count}`, position, this.biomeNames);
+        this.graph.nodes.push(node);
+        this.select(node.id);
+    }
+
+    private removeNode(id: string) {
+        this.graph.nodes = this.graph.nodes.filter(node => node.id !== id);
+        for (const node of this.graph.nodes) this.unplug(node, id);
+        this.select(null);
+    }
+
+    // Disconnect every input of `node` reading `id` (variadic nodes drop the input)
+    private unplug(node: HeightNode, id: string) {
+        if (!node.inputs) return;
+        node.inputs = HEIGHT_NODE_INPUTS[node.type] === 'many'
+            ? node.inputs.filter(input => input !== id)
+            : node.inputs.map(input => input === id ? '' : input);
+    }
+
+    private renameNode(node: HeightNode, id: string) {
+        if (!id || this.graph.nodes.some(other => other.id === id)) {
+            this.showMessage(`Can't rename to "${id}"`, true);
+            return;
+        }
+        for (const other of this.graph.nodes) {
+            if (other.inputs) other.inputs = other.inputs.map(input => input === node.id ? id : input);
+        }
+        if (this.graph.output === node.id) this.graph.output = id;
+        node.id = id;
+        this.selectedId = id;
+        this.render();
+    }
+
+    private select(id: string | null) {
+        this.selectedId = id;
+        this.render();
+    }
+
+    private render() {
+        if (!this.canvas || !this.wires) return;
+        this.canvas.querySelectorAll('.height-graph-node').forEach(element => element.remove());
+        for (const node of this.graph.nodes) this.canvas.appendChild(this.createNodeElement(node));
+        this.renderWires();
+        this.renderInspector();
+    }
+
+    private inputPortCount(node: HeightNode) {
+        const ports = HEIGHT_NODE_INPUTS[node.type];
+        // Variadic nodes always show one free port to plug the next input into
+        return ports === 'many' ? (node.inputs?.length ?? 0) + 1 : ports.length;
+    }
+
+    private inputPortLabel(node: HeightNode, slot: number) {
+        const ports = HEIGHT_NODE_INPUTS[node.type];
+        return ports === 'many' ? `in ${slot + 1}` : ports[slot];
+    }
+
+    private createNodeElement(node: HeightNode) {
+        const [x, y] = node.position ?? [0, 0];
+        const element = document.createElement('div');
+        element.className = 'height-graph-node';
+        element.style.position = 'absolute';
+        element.style.left = `${x}px`;
+        element.style.top = `${y}px`;
+        element.style.width = `${NODE_WIDTH}px`;
+        element.style.background = '#2a2a2a';
+        element.style.borderRadius = '4px';
+        element.style.boxSizing = 'border-box';
+        element.style.border = `2px solid ${node.id === this.selectedId ? '#007acc' : node.id === this.graph.output ? '#00cc44' : '#444'}`;
+        element.style.userSelect = 'none';
+
+        const header = document.createElement('div');
+        header.style.height = `${HEADER_HEIGHT - 2}px`;
+        header.style.lineHeight = `${HEADER_HEIGHT - 2}px`;
+        header.style.padding = '0 6px';
+        header.style.background = '#3a3a3a';
+        header.style.cursor = 'move';
+        header.style.overflow = 'hidden';
+        header.style.whiteSpace = 'nowrap';
+        header.textContent = node.id === this.graph.output ? `${node.id} (${node.type}) ➜` : `${node.id} (${node.type})`;
+        header.addEventListener('pointerdown', event => this.startDrag(event, node));
+        element.appendChild(header);
+
+        const output = this.createPort('#00cc44');
+        output.style.right = '-8px';
+        output.style.top = `${HEADER_HEIGHT / 2 - 7}px`;
+        output.title = 'Drag onto an input';
+        output.addEventListener('pointerdown', event => this.startWire(event, node));
+        element.appendChild(output);
+
+        for (let slot = 0; slot < this.inputPortCount(node); slot++) {
+            const row = document.createElement('div');
+            row.style.position = 'relative';
+            row.style.height = `${PORT_ROW_HEIGHT}px`;
+            row.style.lineHeight = `${PORT_ROW_HEIGHT}px`;
+            row.style.paddingLeft = '12px';
+            const source = node.inputs?.[slot];
+            row.textContent = source ? `${this.inputPortLabel(node, slot)}: ${source}` : this.inputPortLabel(node, slot);
+
+            const port = this.createPort(source ? '#ffaa00' : '#777');
+            port.style.left = '-8px';
+            port.style.top = `${PORT_ROW_HEIGHT / 2 - 6}px`;
+            // Handled on click; selecting the node on pointerdown would redraw the port away first
+            port.addEventListener('pointerdown', event => event.stopPropagation());
+            port.dataset.node = node.id;
+            port.dataset.slot = String(slot);
+            port.title = source ? 'Click to unplug' : 'Drop a wire here';
+            port.addEventListener('click', () => {
+                if (!source || !node.inputs) return;
+                if (HEIGHT_NODE_INPUTS[node.type] === 'many') node.inputs.splice(slot, 1);
+                else node.inputs[slot] = '';
+                this.render();
+            });
+            row.appendChild(port);
+            element.appendChild(row);
+        }
+
+        element.addEventListener('pointerdown', () => {
+            if (this.selectedId !== node.id) this.select(node.id);
+        });
+        return element;
+    }
+
+    private createPort(color: string) {
+        const port = document.createElement('span');
+        port.style.position = 'absolute';
+        port.style.width = '12px';
+        port.style.height = '12px';
+        port.style.borderRadius = '50%';
+        port.style.background = color;
+        port.style.border = '1px solid #111';
+        port.style.cursor = 'crosshair';
+        return port;
+    }
+
+    private outputPortPosition(node: HeightNode): [number, number] {
+        const [x, y] = node.position ?? [0, 0];
+        return [x + NODE_WIDTH, y + HEADER_HEIGHT / 2];
+    }
+
+    private inputPortPosition(node: HeightNode, slot: number): [number, number] {
+        const [x, y] = node.position ?? [0, 0];
+        return [x, y + HEADER_HEIGHT + PORT_ROW_HEIGHT * slot + PORT_ROW_HEIGHT / 2];
+    }
+
+    private createWire([x1, y1]: [number, number], [x2, y2]: [number, number], color: string) {
+        const bend = Math.max(Math.abs(x2 - x1) / 2, 40);
+        const path = document.createElementNS(SVG_NS, 'path');
+        path.setAttribute('d', `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`);
+        path.setAttribute('stroke', color);
+        path.setAttribute('stroke-width', '2');
+        path.setAttribute('fill', 'none');
+        return path;
+    }
+
+    private renderWires() {
+        if (!this.wires) return;
+        this.wires.innerHTML = '';
+        const nodesById = new Map(this.graph.nodes.map(node => [node.id, node]));
+        for (const node of this.graph.nodes) {
+            (node.inputs ?? []).forEach((id, slot) => {
+                const source = nodesById.get(id);
+                if (!source) return;
+                this.wires!.appendChild(this.createWire(this.outputPortPosition(source), this.inputPortPosition(node, slot), '#ffaa00'));
+            });
+        }
+        if (this.pendingWire) this.wires.appendChild(this.pendingWire);
+    }
+
+    // Pointer position in canvas pixels
+    private canvasPoint(event: PointerEvent): [number, number] {
+        const rect = this.canvas!.getBoundingClientRect();
+        return [event.clientX - rect.left, event.clientY - rect.top];
+    }
+
+    private startDrag(event: PointerEvent, node: HeightNode) {
+        event.preventDefault();
+        const [startX, startY] = this.canvasPoint(event);
+        const [nodeX, nodeY] = node.position ?? [0, 0];
+        const move = (moveEvent: PointerEvent) => {
+            const [x, y] = this.canvasPoint(moveEvent);
+            node.position = [
+                Math.min(Math.max(nodeX + x - startX, 0), CANVAS_SIZE[0] - NODE_WIDTH),
+                Math.min(Math.max(nodeY + y - startY, 0), CANVAS_SIZE[1] - HEADER_HEIGHT)
+            ];
+            this.render();
+        };
+        const up = () => {
+            window.removeEventListener('pointermove', move);
+            window.removeEventListener('pointerup', up);
+        };
+        window.addEventListener('pointermove', move);
+        window.addEventListener('pointerup', up);
+    }
+
+    private startWire(event: PointerEvent, source: HeightNode) {
+        event.preventDefault();
+        event.stopPropagation();
+        const start = this.outputPortPosition(source);
+        const move = (moveEvent: PointerEvent) => {
+            this.pendingWire = this.createWire(start, this.canvasPoint(moveEvent), '#ffffff');
+            this.renderWires();
+        };
+        const up = (upEvent: PointerEvent) => {
+            window.removeEventListener('pointermove', move);
+            window.removeEventListener('pointerup', up);
+            this.pendingWire = null;
+
+            const target = document.elementFromPoint(upEvent.clientX, upEvent.clientY) as HTMLElement | null;
+            const node = this.graph.nodes.find(other => other.id === target?.dataset.node);
+            if (node && target?.dataset.slot !== undefined) {
+                const slot = Number(target.dataset.slot);
+                node.inputs = node.inputs ?? [];
+                node.inputs[slot] = source.id;
+                this.showMessage('');
+            }
+            this.render();
+        };
+        window.addEventListener('pointermove', move);
+        window.addEventListener('pointerup', up);
+    }
+
+    private renderInspector() {
+        if (!this.inspector) return;
+        this.inspector.innerHTML = '';
+        const node = this.graph.nodes.find(other => other.id === this.selectedId);
+        if (!node) {
+            this.inspector.textContent = 'Select a node to edit it. The green-bordered node is the output: its value is the terrain height.';
+            return;
+        }
+
+        const idInput = this.addField('id', 'text', node.id);
+        idInput.addEventListener('change', () => this.renameNode(node, idInput.value.trim()));
+
+        const number = (label: string, value: number | undefined, assign: (value: number | undefined) => void) => {
+            const input = this.addField(label, 'number', value === undefined ? '' : String(value));
+            input.addEventListener('change', () => assign(input.value === '' ? undefined : Number(input.value)));
+        };
+        const choice = (label: string, options: string[], value: string, assign: (value: string) => void) => {
+            const select = document.createElement('select');
+            for (const option of options) {
+                const element = document.createElement('option');
+                element.value = option;
+                element.textContent = option;
+                select.appendChild(element);
+            }
+            select.value = value;
+            select.addEventListener('change', () => assign(select.value));
+            this.addRow(label, select);
+        };
+
+        switch (node.type) {
+            case 'noise': {
+                const noise: NoiseParams = node.noise ?? (node.noise = { scale: 0.005, octaves: 4 });
+                choice('noise', ['perlin', 'simplex', 'opensimplex2', 'value', 'worley'], noise.type ?? 'perlin', value => {
+                    noise.type = value as NoiseParams['type'];
+                    this.render();
+                });
+                if (noise.type === 'worley') {
+                    choice('cells', ['f1', 'f2', 'f2-f1'], noise.cellular?.output ?? 'f1', value => {
+                        noise.cellular = { ...noise.cellular, output: value as 'f1' | 'f2' | 'f2-f1' };
+                    });
+                }
+                choice('fractal', ['fbm', 'ridged', 'billow', 'hybrid', 'heterogeneous'], noise.fractal ?? 'fbm', value => {
+                    noise.fractal = value as NoiseParams['fractal'];
+                });
+                number('scale', noise.scale, value => { noise.scale = value ?? 0.005; });
+                number('octaves', noise.octaves, value => { noise.octaves = Math.max(Math.round(value ?? 4), 1); });
+                number('persistence', noise.persistence, value => { noise.persistence = value; });
+                number('lacunarity', noise.lacunarity, value => { noise.lacunarity = value; });
+                number('amplitude', noise.amplitude, value => { noise.amplitude = value; });
+                number('baseHeight', noise.baseHeight, value => { noise.baseHeight = value; });
+                number('warp', noise.warp?.strength, value => {
+                    if (value) noise.warp = { ...noise.warp, strength: value };
+                    else delete noise.warp;
+                });
+                break;
+            }
+            case 'constant':
+                number('value', node.value, value => { node.value = value ?? 0; });
+                break;
+            case 'biomeMask':
+                choice('biome', this.biomeNames, node.biome ?? '', value => { node.biome = value; });
+                break;
+            case 'curve': {
+                // "in,out" pairs separated by spaces
+                const input = this.addField('points', 'text', (node.points ?? []).map(point => point.join(',')).join(' '));
+                input.addEventListener('change', () => {
+                    node.points = input.value.trim().split(/\s+/)
+                        .map(pair => pair.split(',').map(Number) as [number, number])
+                        .filter(point => point.length === 2 && point.every(Number.isFinite));
+                });
+                break;
+            }
+            case 'remap': {
+                const from = node.from ?? (node.from = [-1, 1]);
+                const to = node.to ?? (node.to = [0, 100]);
+                number('from min', from[0], value => { from[0] = value ?? 0; });
+                number('from max', from[1], value => { from[1] = value ?? 1; });
+                number('to min', to[0], value => { to[0] = value ?? 0; });
+                number('to max', to[1], value => { to[1] = value ?? 1; });
+                break;
+            }
+            case 'terrace':
+                number('step', node.step, value => { node.step = value; });
+                number('sharpness', node.sharpness, value => { node.sharpness = value; });
+                break;
+            case 'clamp':
+                number('min', node.min, value => { node.min = value; });
+                number('max', node.max, value => { node.max = value; });
+                break;
+        }
+
+        const actions = document.createElement('div');
+        actions.style.marginTop = '8px';
+        actions.appendChild(this.createToolButton('Make Output', () => {
+            this.graph.output = node.id;
+            this.render();
+        }));
+        actions.appendChild(this.createToolButton('Delete', () => this.removeNode(node.id)));
+        this.inspector.appendChild(actions);
+    }
+
+    private addRow(label: string, control: HTMLElement) {
+        const row = document.createElement('label');
+        row.style.display = 'flex';
+        row.style.justifyContent = 'space-between';
+        row.style.alignItems = 'center';
+        row.style.margin = '4px 0';
+        row.textContent = label;
+        control.style.width = '120px';
+        row.appendChild(control);
+        this.inspector!.appendChild(row);
+    }
+
+    private addField(label: string, type: string, value: string) {
+        const input = document.createElement('input');
+        input.type = type;
+        input.value = value;
+        if (type === 'number') input.step = 'any';
+        this.addRow(label, input);
+        return input;
+    }
+}
@@ -1,9 +1,9 @@
 
 import './style.css';
-import { initRenderer, startAnimationLoop } from './renderer';
+import { initRenderer, startAnimationLoop, setTimeOfDay } from './renderer';
 import { initCamera } from './camera';
 import { setupControls } from './controls';
-import { setupUI } from './ui';
+import { setupUI, reportGenerationProgress } from './ui';
 import { TerrainGenerator } from './terrain';
 import { updateMovement } from './player';
 import { state } from './state';
@@ -11,12 +11,21 @@ import { AssetManager } from './asset-manager';
 import { AssetBrowserClient } from './asset-browser-client';
 import { sampleTerrainParameters } from './sample-terrain-parameters';
 
-const { renderer, scene } = initRenderer(sampleTerrainParameters.skybox, sampleTerrainParameters.lighting);
+const { renderer, scene } = initRenderer(sampleTerrainParameters.skybox, sampleTerrainParameters.lighting, sampleTerrainParameters.shadows, sampleTerrainParameters.fog, sampleTerrainParameters.postProcessing);
+setTimeOfDay(sampleTerrainParameters.timeOfDay ?? null);
 const camera = initCamera();
 const terrainGenerator = new TerrainGenerator(sampleTerrainParameters);
-const terrain = terrainGenerator.generateTerrain();
-terrain.name = 'terrain';
-scene.add(terrain);
+terrainGenerator.generateTerrainAsync(reportGenerationProgress).then(terrain => {
+    if (!terrain) return; // Superseded by a regeneration from the UI
+    terrain.name = 'terrain';
+    scene.add(terrain);
+    const statusDiv = document.getElementById('status');
+    if (statusDiv) statusDiv.textContent = 'Ready';
+}).catch(error => {
+    console.error('Error generating terrain:', error);
+    const statusDiv = document.getElementById('status');
+    if (statusDiv) statusDiv.textContent = 'Generation failed.';
+});
 
 // Asset manager + UI
 const assetManager = new AssetManager(scene, terrainGenerator);
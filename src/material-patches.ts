@@ -0,0 +1,98 @@
+/**
+ * Material Patches
+ *
+ * Shader patches that apply to every material in the scene (cascaded shadows,
+ * height fog), installed in one place so they can't undo each other:
+ * - Meshes are picked up as they are added anywhere below the scene, by
+ *   following childadded events down the tree - nothing walks the scene per frame
+ * - Each material gets a single onBeforeCompile that runs its own hook and then
+ *   the hook of every patch that applies to it, and a program cache key built
+ *   from its own key and every applied patch's key
+ */
+
+import * as THREE from 'three';
+
+type CompileHook = THREE.Material['onBeforeCompile'];
+
+export interface MaterialPatch {
+    // Part of the program cache key of every patched material; change it when the hook changes
+    readonly cacheKey: string;
+    appliesTo(material: THREE.Material): boolean;
+    // Prepare `material` and return the hook to run when its shader compiles
+    setup(material: THREE.Material): CompileHook;
+}
+
+interface PatchedMaterial {
+    ownHook: CompileHook;
+    ownKey: THREE.Material['customProgramCacheKey'];
+    hooks: Map<MaterialPatch, CompileHook>;
+}
+
+export class MaterialPatches {
+    private patches: MaterialPatch[] = [];
+    // Every material seen in the scene until it is disposed, patched or not (a later patch may apply to it)
+    private materials = new Map<THREE.Material, PatchedMaterial>();
+    private watched = new WeakSet<THREE.Object3D>();
+    private onChildAdded = (event: { child: THREE.Object3D }) => this.watch(event.child);
+
+    constructor(scene: THREE.Scene) {
+        this.watch(scene);
+    }
+
+    add(patch: MaterialPatch): void {
+        this.patches.push(patch);
+        for (const [material, entry] of this.materials) {
+            if (!patch.appliesTo(material)) continue;
+            entry.hooks.set(patch, patch.setup(material));
+            this.install(material, entry);
+        }
+    }
+
+    // Drop `patch` from every material; any state the patch left on a material is its own to clean up first
+    remove(patch: MaterialPatch): void {
+        this.patches = this.patches.filter(other => other !== patch);
+        for (const [material, entry] of this.materials) {
+            if (entry.hooks.delete(patch)) this.install(material, entry);
+        }
+    }
+
+    private watch(root: THREE.Object3D): void {
+        root.traverse(object => {
+            if (!this.watched.has(object)) {
+                this.watched.add(object);
+                object.addEventListener('childadded', this.onChildAdded);
+            }
+            if (!(object instanceof THREE.Mesh)) return;
+            const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+            materials.forEach(material => this.track(material));
+        });
+    }
+
+    private track(material: THREE.Material): void {
+        if (this.materials.has(material)) return;
+
+        const entry: PatchedMaterial = {
+            ownHook: material.onBeforeCompile,
+            ownKey: material.customProgramCacheKey,
+            hooks: new Map()
+        };
+        this.materials.set(material, entry);
+        material.addEventListener('dispose', () => this.materials.delete(material));
+
+        for (const patch of this.patches) {
+            if (patch.appliesTo(material)) entry.hooks.set(patch, patch.setup(material));
+        }
+        if (entry.hooks.size > 0) this.install(material, entry);
+    }
+
+    private install(material: THREE.Material, entry: PatchedMaterial): void {
+        const { ownHook, ownKey, hooks } = entry;
+        material.onBeforeCompile = function (shader, renderer) {
+            ownHook.call(this, shader, renderer);
+            for (const hook of hooks.values()) hook.call(this, shader, renderer);
+        };
+        // The default key is the hook's source, which is now the same for every patched material
+        material.customProgramCacheKey = () => [ownKey.call(material), ownHook.toString(), ...[...hooks.keys()].map(patch => patch.cacheKey)].join('|');
+        material.needsUpdate = true;
+    }
+}
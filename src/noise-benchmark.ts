@@ -0,0 +1,136 @@
+/**
+ * Noise Benchmark
+ *
+ * Checks the batched noise path against the per-sample one and times both:
+ * PerlinNoise.fractalBatch() (the noise-kernel loops) against fractal(), and
+ * whole height grids from computeHeightRows() against sampleHeight() per
+ * vertex. Results must match exactly - any differing sample fails the run.
+ *
+ *   npm run bench
+ */
+
+import { PerlinNoise } from './noise';
+import type { FractalParams } from './noise';
+import { mulberry32 } from './random';
+import { sampleTerrainParameters } from './sample-terrain-parameters';
+import { TerrainSampler, computeHeightRows } from './terrain-sampler';
+import type { TerrainGrid } from './terrain-sampler';
+import type { FractalType, FullTerrainParameters } from './types';
+
+const NOISE_SAMPLES = 200_000;
+const GRID_SEGMENTS = 256;
+
+interface BenchmarkResult {
+    case: string;
+    samples: number;
+    'per-sample ms': number;
+    'batched ms': number;
+    speedup: string;
+    mismatches: number;
+}
+
+// Median of a few runs, after one warm-up run
+function time(run: () => void, repeats = 5): number {
+    run();
+    const times: number[] = [];
+    for (let i = 0; i < repeats; i++) {
+        const start = performance.now();
+        run();
+        times.push(performance.now() - start);
+    }
+    times.sort((a, b) => a - b);
+    return times[Math.floor(repeats / 2)];
+}
+
+function countMismatches(expected: ArrayLike<number>, actual: ArrayLike<number>): number {
+    let mismatches = 0;
+    for (let i = 0; i < expected.length; i++) {
+        if (expected[i] !== actual[i] && !(Number.isNaN(expected[i]) && Number.isNaN(actual[i]))) mismatches++;
+    }
+    return mismatches;
+}
+
+function result(name: string, samples: number, perSample: number, batched: number, mismatches: number): BenchmarkResult {
+    return {
+        case: name,
+        samples,
+        'per-sample ms': Math.round(perSample * 10) / 10,
+        'batched ms': Math.round(batched * 10) / 10,
+        speedup: `${(perSample / batched).toFixed(2)}x`,
+        mismatches
+    };
+}
+
+function benchmarkFractal(name: string, params: FractalParams, fallback: FractalType = 'fbm'): BenchmarkResult {
+    const noise = new PerlinNoise(1337);
+    const rand = mulberry32(42);
+    const xs = new Float64Array(NOISE_SAMPLES);
+    const ys = new Float64Array(NOISE_SAMPLES);
+    for (let i = 0; i < NOISE_SAMPLES; i++) {
+        xs[i] = (rand() - 0.5) * 20000;
+        ys[i] = (rand() - 0.5) * 20000;
+    }
+
+    const expected = new Float64Array(NOISE_SAMPLES);
+    const actual = new Float64Array(NOISE_SAMPLES);
+    const perSample = time(() => {
+        for (let i = 0; i < NOISE_SAMPLES; i++) expected[i] = noise.fractal(xs[i], ys[i], params, fallback);
+    });
+    const batched = time(() => noise.fractalBatch(xs, ys, NOISE_SAMPLES, params, actual, fallback));
+    return result(name, NOISE_SAMPLES, perSample, batched, countMismatches(expected, actual));
+}
+
+function benchmarkGrid(name: string, params: FullTerrainParameters): BenchmarkResult {
+    const sampler = new TerrainSampler(structuredClone(params));
+    const grid: TerrainGrid = { width: params.global.width, depth: params.global.depth, segments: GRID_SEGMENTS };
+    const row = GRID_SEGMENTS + 1;
+
+    const expected = new Float32Array(row * row);
+    const actual = new Float32Array(row * row);
+    const perSample = time(() => {
+        for (let z = 0; z < row; z++) {
+            const worldZ = (z / GRID_SEGMENTS) * grid.depth - grid.depth / 2;
+            for (let x = 0; x < row; x++) {
+                expected[z * row + x] = sampler.sampleHeight((x / GRID_SEGMENTS) * grid.width - grid.width / 2, worldZ);
+            }
+        }
+    }, 3);
+    const batched = time(() => computeHeightRows(sampler, grid, 0, row, actual), 3);
+    return result(name, row * row, perSample, batched, countMismatches(expected, actual));
+}
+
+// The sample world with one change, so the benchmark also covers the non-default paths
+function variant(change: (params: FullTerrainParameters) => void): FullTerrainParameters {
+    const params = structuredClone(sampleTerrainParameters);
+    change(params);
+    return params;
+}
+
+export function runNoiseBenchmark(): BenchmarkResult[] {
+    const results = [
+        benchmarkFractal('fBm, 4 octaves', { scale: 0.01, octaves: 4 }),
+        benchmarkFractal('fBm, 8 octaves', { scale: 0.003, octaves: 8, persistence: 0.45, lacunarity: 2.1 }),
+        benchmarkFractal('ridged, 6 octaves', { scale: 0.0015, octaves: 6, lacunarity: 2.1 }, 'ridged'),
+        benchmarkFractal('fBm, warped (per-sample fallback)', { scale: 0.01, octaves: 4, warp: { strength: 40 } }),
+        benchmarkGrid('height grid, sample world', sampleTerrainParameters),
+        benchmarkGrid('height grid, climate biomes', variant(params => { params.biomeControl.mode = 'climate'; })),
+        benchmarkGrid('height grid, ridged warped biome map', variant(params => {
+            params.biomeControl.fractal = 'ridged';
+            params.biomeControl.warp = { strength: 200 };
+        })),
+        benchmarkGrid('height grid, warped and shaped biome', variant(params => {
+            params.biomes[0].terrainParams.warp = { strength: 30 };
+            params.biomes[1].terrainParams.shape = { terrace: { step: 10 } };
+        }))
+    ];
+
+    console.table(results);
+    const failed = results.filter(entry => entry.mismatches > 0);
+    if (failed.length > 0) {
+        throw new Error(`Batched noise differs from per-sample noise in: ${failed.map(entry => entry.case).join(', ')}`);
+    }
+    console.log('✅ Batched noise matches the per-sample output exactly');
+    return results;
+}
+
+runNoiseBenchmark();
@@ -0,0 +1,105 @@
+/**
+ * Noise Kernel
+ *
+ * Batched Perlin fractals over typed arrays - the inner loops of terrain
+ * generation without per-sample objects, method calls or the unused z half of
+ * the 3D lattice. Octaves run in the outer loop over the whole batch, with the
+ * running sums in scratch Float64Arrays, so each pass is a tight loop over
+ * plain numbers. Results are bit-identical to PerlinNoise.fBm() and ridged()
+ * (noise-benchmark checks this).
+ */
+
+// Running sums shared by all batches (grown on demand; generation is single-threaded per worker)
+let sums = new Float64Array(0);
+let weights = new Float64Array(0);
+
+function ensureScratch(count: number) {
+    if (sums.length < count) {
+        sums = new Float64Array(count);
+        weights = new Float64Array(count);
+    }
+}
+
+/**
+ * PerlinNoise.noise(x, y) - the z = 0 slice of the 3D noise, where the z
+ * gradients and the final lerp drop out. Same operations in the same order, so
+ * the results match to the bit.
+ */
+export function perlin2(permutation: Int32Array, x: number, y: number): number {
+    const floorX = Math.floor(x);
+    const floorY = Math.floor(y);
+    const X = floorX & 255;
+    const Y = floorY & 255;
+    x -= floorX;
+    y -= floorY;
+
+    const u = x * x * x * (x * (x * 6 - 15) + 10);
+    const v = y * y * y * (y * (y * 6 - 15) + 10);
+
+    const A = permutation[X] + Y;
+    const B = permutation[X + 1] + Y;
+    const g00 = grad2(permutation[permutation[A]], x, y);
+    const g10 = grad2(permutation[permutation[B]], x - 1, y);
+    const g01 = grad2(permutation[permutation[A + 1]], x, y - 1);
+    const g11 = grad2(permutation[permutation[B + 1]], x - 1, y - 1);
+
+    const bottom = g00 + u * (g10 - g00);
+    const top = g01 + u * (g11 - g01);
+    return bottom + v * (top - bottom);
+}
+
+// PerlinNoise.grad() with z = 0
+function grad2(hash: number, x: number, y: number): number {
+    const h = hash & 15;
+    const u = h < 8 ? x : y;
+    const v = h < 4 ? y : h === 12 || h === 14 ? x : 0;
+    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
+
+// PerlinNoise.fBm() at (xs[i], ys[i]) into out[i], for i < count
+export function perlinFbmBatch(permutation: Int32Array, xs: ArrayLike<number>, ys: ArrayLike<number>, count: number,
+                               scale: number, octaves: number, persistence: number, lacunarity: number,
+                               out: Float64Array): void {
+    ensureScratch(count);
+    sums.fill(0, 0, count);
+    let amplitude = 1;
+    let frequency = scale;
+    let maxValue = 0;
+
+    for (let octave = 0; octave < octaves; octave++) {
+        for (let i = 0; i < count; i++) {
+            sums[i] += perlin2(permutation, xs[i] * frequency, ys[i] * frequency) * amplitude;
+        }
+        maxValue += amplitude;
+        amplitude *= persistence;
+        frequency *= lacunarity;
+    }
+
+    for (let i = 0; i < count; i++) out[i] = sums[i] / maxValue;
+}
+
+// PerlinNoise.ridged() at (xs[i], ys[i]) into out[i], for i < count
+export function perlinRidgedBatch(permutation: Int32Array, xs: ArrayLike<number>, ys: ArrayLike<number>, count: number,
+                                  scale: number, octaves: number, persistence: number, lacunarity: number,
+                                  out: Float64Array): void {
+    ensureScratch(count);
+    sums.fill(0, 0, count);
+    weights.fill(1, 0, count);
+    let amplitude = 1;
+    let frequency = scale;
+    let maxValue = 0;
+
+    for (let octave = 0; octave < octaves; octave++) {
+        for (let i = 0; i < count; i++) {
+            let ridge = 1 - Math.abs(perlin2(permutation, xs[i] * frequency, ys[i] * frequency));
+            ridge *= ridge * weights[i];
+            weights[i] = Math.min(Math.max(ridge * 2, 0), 1);
+            sums[i] += ridge * amplitude;
+        }
+        maxValue += amplitude;
+        amplitude *= persistence;
+        frequency *= lacunarity;
+    }
+
+    for (let i = 0; i < count; i++) out[i] = sums[i] / maxValue;
+}
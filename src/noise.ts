@@ -1,30 +1,34 @@
-// Simplified Perlin noise implementation
-export class PerlinNoise {
+import { perlinFbmBatch, perlinRidgedBatch } from './noise-kernel';
+import { mulberry32, randomSeed } from './random';
+import type { CellularOutput, FractalType, NoiseParams } from './types';
+
+export type FractalParams = Pick<NoiseParams, 'scale' | 'octaves' | 'persistence' | 'lacunarity' | 'fractal' | 'warp'>;
+
+// Offset (in noise-space units) between the two warp fields, far enough apart to be unrelated
+const WARP_OFFSET = 71.3;
+
+/**
+ * Seeded 2D noise with the fractal sums on top. Every algorithm returns
+ * roughly -1..1 from noise(), so any of them can drive any of the fractal sums
+ * (fBm, ridged, billow, hybrid, heterogeneous) that fractal() picks between.
+ */
+export abstract class NoiseGenerator {
     seed: number;
     permutation: number[];
+    // Reused by fractal() so warped samples don't allocate
+    private warpParams = { scale: 0, octaves: 2 };
 
     constructor(seed?: number) {
         // Normalize seed to a number: use provided seed or a random 32-bit value
-        const s = typeof seed === 'number' && Number.isFinite(seed) ? seed : Math.floor(Math.random() * 0xffffffff);
+        const s = typeof seed === 'number' && Number.isFinite(seed) ? seed : randomSeed();
         // Use a numeric seed (integer)
         this.seed = Math.floor(s);
         // Build permutation deterministically using a local seeded PRNG so we don't mutate instance state during noise calls
         this.permutation = this.generatePermutation(this.seed);
     }
 
-    // Mulberry32 seeded PRNG used locally to build the permutation table
-    private mulberry32(a: number) {
-        return function() {
-            a |= 0;
-            a = (a + 0x6D2B79F5) | 0;
-            let t = Math.imul(a ^ (a >>> 15), 1 | a);
-            t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-        };
-    }
-
     generatePermutation(seed: number) {
-        const rand = this.mulberry32(seed >>> 0);
+        const rand = mulberry32(seed >>> 0);
         const p: number[] = new Array(256);
         for (let i = 0; i < 256; i++) p[i] = i;
 
@@ -51,6 +55,218 @@ export class PerlinNoise {
         return a + t * (b - a);
     }
 
+    // One lattice hash per integer cell corner, 0-255
+    protected hash(X: number, Y: number): number {
+        return this.permutation[this.permutation[X & 255] + (Y & 255)];
+    }
+
+    abstract noise(x: number, y: number): number;
+
+    // Fractal Brownian Motion (fBm)
+    fBm(x: number, y: number, {
+        scale = 0.01,
+        octaves = 4,
+        persistence = 0.5,
+        lacunarity = 2.0
+    }: {
+        scale?: number,
+        octaves?: number,
+        persistence?: number,
+        lacunarity?: number
+    } = {}) {
+        let value = 0;
+        let amplitude = 1;
+        let frequency = scale;
+        let maxValue = 0;
+
+        for (let i = 0; i < octaves; i++) {
+            value += this.noise(x * frequency, y * frequency) * amplitude;
+            maxValue += amplitude;
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return value / maxValue;
+    }
+
+    // Ridged multifractal: sharp crests where the noise crosses zero, in [0, 1].
+    // Each octave is weighted by the previous one so detail gathers along the ridges.
+    ridged(x: number, y: number, {
+        scale = 0.01,
+        octaves = 4,
+        persistence = 0.5,
+        lacunarity = 2.0
+    }: {
+        scale?: number,
+        octaves?: number,
+        persistence?: number,
+        lacunarity?: number
+    } = {}) {
+        let value = 0;
+        let amplitude = 1;
+        let frequency = scale;
+        let maxValue = 0;
+        let weight = 1;
+
+        for (let i = 0; i < octaves; i++) {
+            let ridge = 1 - Math.abs(this.noise(x * frequency, y * frequency));
+            ridge *= ridge * weight;
+            weight = Math.min(Math.max(ridge * 2, 0), 1);
+
+            value += ridge * amplitude;
+            maxValue += amplitude;
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return value / maxValue;
+    }
+
+    // Billow: folded noise, all rounded crests and creased hollows (puffy hills, dunes, clouds), in [-1, 1]
+    billow(x: number, y: number, {
+        scale = 0.01,
+        octaves = 4,
+        persistence = 0.5,
+        lacunarity = 2.0
+    }: {
+        scale?: number,
+        octaves?: number,
+        persistence?: number,
+        lacunarity?: number
+    } = {}) {
+        let value = 0;
+        let amplitude = 1;
+        let frequency = scale;
+        let maxValue = 0;
+
+        for (let i = 0; i < octaves; i++) {
+            value += (2 * Math.abs(this.noise(x * frequency, y * frequency)) - 1) * amplitude;
+            maxValue += amplitude;
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return value / maxValue;
+    }
+
+    // Hybrid multifractal (Musgrave), in [0, 1]: each octave is weighted by the ground built so far,
+    // so valleys stay smooth while peaks and high plateaus turn rough.
+    hybrid(x: number, y: number, {
+        scale = 0.01,
+        octaves = 4,
+        persistence = 0.5,
+        lacunarity = 2.0
+    }: {
+        scale?: number,
+        octaves?: number,
+        persistence?: number,
+        lacunarity?: number
+    } = {}) {
+        let value = 0.5 + 0.5 * this.noise(x * scale, y * scale);
+        let weight = value;
+        let amplitude = persistence;
+        let frequency = scale * lacunarity;
+        let maxValue = 1;
+
+        for (let i = 1; i < octaves; i++) {
+            const signal = 0.5 + 0.5 * this.noise(x * frequency, y * frequency);
+            value += weight * signal * amplitude;
+            maxValue += amplitude;
+            weight = Math.min(weight * signal * 2, 1);
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return value / maxValue;
+    }
+
+    // Heterogeneous terrain (Musgrave), in [0, 1]: octaves scale with the height so far,
+    // giving flat lowlands and increasingly broken uplands.
+    heterogeneous(x: number, y: number, {
+        scale = 0.01,
+        octaves = 4,
+        persistence = 0.5,
+        lacunarity = 2.0
+    }: {
+        scale?: number,
+        octaves?: number,
+        persistence?: number,
+        lacunarity?: number
+    } = {}) {
+        let value = 0.5 + 0.5 * this.noise(x * scale, y * scale);
+        let amplitude = persistence;
+        let frequency = scale * lacunarity;
+
+        for (let i = 1; i < octaves; i++) {
+            value += this.noise(x * frequency, y * frequency) * amplitude * value;
+            amplitude *= persistence;
+            frequency *= lacunarity;
+        }
+
+        return Math.min(Math.max(value, 0), 1);
+    }
+
+    /**
+     * The fractal a noise block asks for (`fallback` when it doesn't say), in
+     * about [-1, 1], after warping the input by the block's domain warp.
+     */
+    fractal(x: number, y: number, params: FractalParams, fallback: FractalType = 'fbm') {
+        const warp = params.warp;
+        if (warp && warp.strength) {
+            // Two decorrelated noise fields push the sample point around (in world units)
+            const warpParams = this.warpParams;
+            warpParams.scale = warp.scale ?? params.scale ?? 0.01;
+            warpParams.octaves = warp.octaves ?? 2;
+            const offset = WARP_OFFSET / warpParams.scale;
+            const dx = this.fBm(x + offset, y, warpParams);
+            const dy = this.fBm(x, y + offset, warpParams);
+            x += dx * warp.strength;
+            y += dy * warp.strength;
+        }
+
+        switch (params.fractal ?? fallback) {
+            case 'ridged': return this.ridged(x, y, params) * 2 - 1;
+            case 'billow': return this.billow(x, y, params);
+            case 'hybrid': return this.hybrid(x, y, params) * 2 - 1;
+            case 'heterogeneous': return this.heterogeneous(x, y, params) * 2 - 1;
+            default: return this.fBm(x, y, params);
+        }
+    }
+
+    /**
+     * fractal() for a batch of points: out[i] = fractal(xs[i], ys[i], ...) for
+     * i < count. Generators with a batched kernel override this; the rest
+     * loop over the samples.
+     */
+    fractalBatch(xs: ArrayLike<number>, ys: ArrayLike<number>, count: number, params: FractalParams,
+                 out: Float64Array, fallback: FractalType = 'fbm'): void {
+        for (let i = 0; i < count; i++) out[i] = this.fractal(xs[i], ys[i], params, fallback);
+    }
+}
+
+// Simplified Perlin noise implementation
+export class PerlinNoise extends NoiseGenerator {
+    // The permutation as a typed array for the batch kernel
+    private kernelPermutation = Int32Array.from(this.permutation);
+
+    // Unwarped fBm and ridged sums run in noise-kernel; everything else takes the per-sample path
+    fractalBatch(xs: ArrayLike<number>, ys: ArrayLike<number>, count: number, params: FractalParams,
+                 out: Float64Array, fallback: FractalType = 'fbm'): void {
+        const fractal = params.fractal ?? fallback;
+        if (params.warp?.strength || (fractal !== 'fbm' && fractal !== 'ridged')) {
+            super.fractalBatch(xs, ys, count, params, out, fallback);
+            return;
+        }
+
+        const { scale = 0.01, octaves = 4, persistence = 0.5, lacunarity = 2.0 } = params;
+        if (fractal === 'fbm') {
+            perlinFbmBatch(this.kernelPermutation, xs, ys, count, scale, octaves, persistence, lacunarity, out);
+        } else {
+            perlinRidgedBatch(this.kernelPermutation, xs, ys, count, scale, octaves, persistence, lacunarity, out);
+            for (let i = 0; i < count; i++) out[i] = out[i] * 2 - 1;
+        }
+    }
+
     grad(hash: number, x: number, y: number, z: number) {
         const h = hash & 15;
         const u = h < 8 ? x : y;
@@ -108,31 +324,176 @@ export class PerlinNoise {
             w
         );
     }
+}
 
-    // Fractal Brownian Motion (fBm)
-    fBm(x: number, y: number, {
-        scale = 0.01,
-        octaves = 4,
-        persistence = 0.5,
-        lacunarity = 2.0
-    }: {
-        scale?: number,
-        octaves?: number,
-        persistence?: number,
-        lacunarity?: number
-    } = {}) {
-        let value = 0;
-        let amplitude = 1;
-        let frequency = scale;
-        let maxValue = 0;
+// Simplex noise (Gustavson): a triangular lattice, so no square grid shows through and each sample only visits 3 corners
+const SIMPLEX_F2 = 0.5 * (Math.sqrt(3) - 1);
+const SIMPLEX_G2 = (3 - Math.sqrt(3)) / 6;
+const SIMPLEX_GRADIENTS = [
+    [1, 1], [-1, 1], [1, -1], [-1, -1],
+    [1, 0], [-1, 0], [1, 0], [-1, 0],
+    [0, 1], [0, -1], [0, 1], [0, -1]
+];
 
-        for (let i = 0; i < octaves; i++) {
-            value += this.noise(x * frequency, y * frequency) * amplitude;
-            maxValue += amplitude;
-            amplitude *= persistence;
-            frequency *= lacunarity;
+export class SimplexNoise extends NoiseGenerator {
+    noise(x: number, y: number) {
+        // Skew into the square lattice to find the simplex cell
+        const s = (x + y) * SIMPLEX_F2;
+        const i = Math.floor(x + s);
+        const j = Math.floor(y + s);
+        const t = (i + j) * SIMPLEX_G2;
+        const x0 = x - (i - t);
+        const y0 = y - (j - t);
+
+        // Lower or upper triangle of the cell
+        const i1 = x0 > y0 ? 1 : 0;
+        const j1 = 1 - i1;
+        const x1 = x0 - i1 + SIMPLEX_G2;
+        const y1 = y0 - j1 + SIMPLEX_G2;
+        const x2 = x0 - 1 + 2 * SIMPLEX_G2;
+        const y2 = y0 - 1 + 2 * SIMPLEX_G2;
+
+        return 70 * (
+            this.corner(this.hash(i, j), x0, y0) +
+            this.corner(this.hash(i + i1, j + j1), x1, y1) +
+            this.corner(this.hash(i + 1, j + 1), x2, y2)
+        );
+    }
+
+    private corner(hash: number, x: number, y: number) {
+        const t = 0.5 - x * x - y * y;
+        if (t <= 0) return 0;
+        const gradient = SIMPLEX_GRADIENTS[hash % 12];
+        return t * t * t * t * (gradient[0] * x + gradient[1] * y);
+    }
+}
+
+// OpenSimplex2 (2D): the simplex lattice with 24 evenly spread gradients, so features have no preferred directions
+const OPENSIMPLEX2_UNSKEW = (1 / Math.sqrt(3) - 1) / 2;
+const OPENSIMPLEX2_NORMALIZER = 99.83685446303647;
+const OPENSIMPLEX2_GRADIENTS = Array.from({ length: 24 }, (_, i) => {
+    // Offset half a step so no gradient lies exactly on an axis
+    const angle = (i + 0.5) * Math.PI * 2 / 24;
+    return [Math.cos(angle), Math.sin(angle)];
+});
+
+export class OpenSimplex2Noise extends NoiseGenerator {
+    noise(x: number, y: number) {
+        const skew = (x + y) * SIMPLEX_F2;
+        const xs = x + skew;
+        const ys = y + skew;
+        const xsb = Math.floor(xs);
+        const ysb = Math.floor(ys);
+        const xi = xs - xsb;
+        const yi = ys - ysb;
+
+        // Back to the unskewed frame, relative to the cell's base vertex
+        const t = (xi + yi) * OPENSIMPLEX2_UNSKEW;
+        const dx0 = xi + t;
+        const dy0 = yi + t;
+
+        let value = this.corner(xsb, ysb, dx0, dy0);
+        value += this.corner(xsb + 1, ysb + 1, dx0 - 1 - 2 * OPENSIMPLEX2_UNSKEW, dy0 - 1 - 2 * OPENSIMPLEX2_UNSKEW);
+        if (dy0 > dx0) {
+            value += this.corner(xsb, ysb + 1, dx0 - OPENSIMPLEX2_UNSKEW, dy0 - 1 - OPENSIMPLEX2_UNSKEW);
+        } else {
+            value += this.corner(xsb + 1, ysb, dx0 - 1 - OPENSIMPLEX2_UNSKEW, dy0 - OPENSIMPLEX2_UNSKEW);
         }
+        return value * OPENSIMPLEX2_NORMALIZER;
+    }
 
-        return value / maxValue;
+    private corner(X: number, Y: number, dx: number, dy: number) {
+        const a = 0.5 - dx * dx - dy * dy;
+        if (a <= 0) return 0;
+        const gradient = OPENSIMPLEX2_GRADIENTS[this.hash(X, Y) % 24];
+        return a * a * a * a * (gradient[0] * dx + gradient[1] * dy);
+    }
+}
+
+// Value noise: a random height per lattice point, smoothly interpolated (blobbier and cheaper than gradient noise)
+export class ValueNoise extends NoiseGenerator {
+    noise(x: number, y: number) {
+        const X = Math.floor(x);
+        const Y = Math.floor(y);
+        const u = this.fade(x - X);
+        const v = this.fade(y - Y);
+
+        return this.lerp(
+            this.lerp(this.value(X, Y), this.value(X + 1, Y), u),
+            this.lerp(this.value(X, Y + 1), this.value(X + 1, Y + 1), u),
+            v
+        );
+    }
+
+    private value(X: number, Y: number) {
+        return this.hash(X, Y) / 127.5 - 1;
+    }
+}
+
+// Remaps each cellular output from its typical distance range to about -1..1
+const CELLULAR_RANGES: Record<CellularOutput, [number, number]> = {
+    'f1': [0, 0.9],
+    'f2': [0.3, 1.3],
+    'f2-f1': [0, 0.8]
+};
+
+/**
+ * Worley (cellular) noise: one jittered feature point per lattice cell.
+ * 'f1' is the distance to the nearest point (round cells, inverted: cones and
+ * crystal spikes), 'f2' to the second nearest (domed cells with creased edges)
+ * and 'f2-f1' is zero along the cell borders (cracks, mesas, plates).
+ */
+export class WorleyNoise extends NoiseGenerator {
+    output: CellularOutput;
+    jitter: number;
+    private offsets: Float32Array;   // Feature point offset in its cell, two per lattice hash
+
+    constructor(seed?: number, output: CellularOutput = 'f1', jitter: number = 1) {
+        super(seed);
+        this.output = output;
+        this.jitter = Math.min(Math.max(jitter, 0), 1);
+
+        const rand = mulberry32((this.seed ^ 0x5bd1e995) >>> 0);
+        this.offsets = new Float32Array(512);
+        for (let i = 0; i < 512; i++) this.offsets[i] = rand();
+    }
+
+    noise(x: number, y: number) {
+        const X = Math.floor(x);
+        const Y = Math.floor(y);
+        let f1 = Infinity;
+        let f2 = Infinity;
+
+        for (let cy = Y - 1; cy <= Y + 1; cy++) {
+            for (let cx = X - 1; cx <= X + 1; cx++) {
+                const hash = this.hash(cx, cy) * 2;
+                const dx = cx + 0.5 + (this.offsets[hash] - 0.5) * this.jitter - x;
+                const dy = cy + 0.5 + (this.offsets[hash + 1] - 0.5) * this.jitter - y;
+                const distance = dx * dx + dy * dy;
+                if (distance < f1) {
+                    f2 = f1;
+                    f1 = distance;
+                } else if (distance < f2) {
+                    f2 = distance;
+                }
+            }
+        }
+
+        f1 = Math.sqrt(f1);
+        f2 = Math.sqrt(f2);
+        const value = this.output === 'f1' ? f1 : this.output === 'f2' ? f2 : f2 - f1;
+        const [min, max] = CELLULAR_RANGES[this.output];
+        return Math.min(Math.max((value - min) / (max - min) * 2 - 1, -1), 1);
+    }
+}
+
+// The generator a noise block asks for (Perlin when it doesn't say)
+export function createNoise(seed: number, params?: Pick<NoiseParams, 'type' | 'cellular'>): NoiseGenerator {
+    switch (params?.type) {
+        case 'simplex': return new SimplexNoise(seed);
+        case 'opensimplex2': return new OpenSimplex2Noise(seed);
+        case 'value': return new ValueNoise(seed);
+        case 'worley': return new WorleyNoise(seed, params.cellular?.output, params.cellular?.jitter);
+        default: return new PerlinNoise(seed);
     }
 }
@@ -0,0 +1,185 @@
+/**
+ * Post-Processing
+ *
+ * The frame is rendered in HDR and finished by a chain of passes:
+ * - SSAO darkens creases, valleys and the ground under assets
+ * - Bloom makes anything brighter than the threshold glow (lava, crystals, neon biomes)
+ * - Tone mapping and exposure bring HDR back to the screen
+ * - A colour grading LUT sets the mood (saturation, contrast, temperature, split toning)
+ */
+
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { SSAOPass } from 'three/examples/jsm/postprocessing/SSAOPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { LUTPass } from 'three/examples/jsm/postprocessing/LUTPass.js';
+import type { PostProcessingParams, ColorGradingParams } from './types';
+
+export const DEFAULT_POST_PROCESSING: PostProcessingParams = {
+    enabled: false,
+    toneMapping: 'aces',
+    exposure: 1,
+    bloom: { enabled: true, strength: 0.6, radius: 0.4, threshold: 1.5 },
+    ssao: { enabled: false, radius: 16 },
+    colorGrading: { saturation: 1, contrast: 1, temperature: 0, intensity: 1 }
+};
+
+const TONE_MAPPINGS = {
+    aces: THREE.ACESFilmicToneMapping,
+    agx: THREE.AgXToneMapping,
+    neutral: THREE.NeutralToneMapping,
+    none: THREE.NoToneMapping
+} as const;
+
+const LUT_SIZE = 32;
+const SPLIT_TONE_STRENGTH = 0.5;
+
+// SSAO that skips the sky quad, which has no real position to occlude anything
+class TerrainSSAOPass extends SSAOPass {
+    private sky: THREE.Object3D;
+
+    constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, sky: THREE.Object3D) {
+        super(scene, camera, window.innerWidth, window.innerHeight);
+        this.sky = sky;
+    }
+
+    render(renderer: THREE.WebGLRenderer, writeBuffer: THREE.WebGLRenderTarget, readBuffer: THREE.WebGLRenderTarget, deltaTime: number, maskActive: boolean): void {
+        const skyVisible = this.sky.visible;
+        this.sky.visible = false;
+        super.render(renderer, writeBuffer, readBuffer, deltaTime, maskActive);
+        this.sky.visible = skyVisible;
+    }
+}
+
+export class PostProcessing {
+    private composer: EffectComposer;
+    private renderPass: RenderPass;
+    private ssaoPass: TerrainSSAOPass;
+    private bloomPass: UnrealBloomPass;
+    private outputPass: OutputPass;
+    private lutPass: LUTPass;
+    private camera: THREE.PerspectiveCamera;
+    private renderer: THREE.WebGLRenderer;
+
+    constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera, sky: THREE.Object3D) {
+        this.renderer = renderer;
+        this.camera = camera;
+        this.composer = new EffectComposer(renderer);
+        this.renderPass = new RenderPass(scene, camera);
+        this.ssaoPass = new TerrainSSAOPass(scene, camera, sky);
+        this.bloomPass = new UnrealBloomPass(new THREE.Vector2(window.innerWidth, window.innerHeight), 0, 0, 0);
+        this.outputPass = new OutputPass();
+        this.lutPass = new LUTPass({});
+
+        this.composer.addPass(this.renderPass);
+        this.composer.addPass(this.ssaoPass);
+        this.composer.addPass(this.bloomPass);
+        this.composer.addPass(this.outputPass);
+        this.composer.addPass(this.lutPass);
+    }
+
+    // Settings missing from `params` fall back to DEFAULT_POST_PROCESSING
+    configure(params: PostProcessingParams): void {
+        const bloom = { ...DEFAULT_POST_PROCESSING.bloom!, ...params.bloom };
+        const ssao = { ...DEFAULT_POST_PROCESSING.ssao!, ...params.ssao };
+        const grading = { ...DEFAULT_POST_PROCESSING.colorGrading, ...params.colorGrading };
+
+        this.renderer.toneMapping = TONE_MAPPINGS[params.toneMapping ?? 'aces'];
+        this.renderer.toneMappingExposure = params.exposure ?? 1;
+
+        this.bloomPass.enabled = bloom.enabled;
+        this.bloomPass.strength = bloom.strength!;
+        this.bloomPass.radius = bloom.radius!;
+        this.bloomPass.threshold = bloom.threshold!;
+
+        // SSAO's distance limits are fractions of the camera's depth range
+        const depthRange = this.camera.far - this.camera.near;
+        this.ssaoPass.enabled = ssao.enabled;
+        this.ssaoPass.kernelRadius = ssao.radius!;
+        this.ssaoPass.minDistance = ssao.radius! * 0.01 / depthRange;
+        this.ssaoPass.maxDistance = ssao.radius! * 4 / depthRange;
+
+        this.lutPass.lut?.dispose();
+        this.lutPass.lut = createColorGradingLUT(grading);
+        this.lutPass.intensity = grading.intensity ?? 1;
+        this.lutPass.enabled = this.lutPass.intensity > 0;
+
+        console.log(`🎞️ Post-processing: ${params.toneMapping ?? 'aces'} tone mapping, bloom ${bloom.enabled ? 'on' : 'off'}, SSAO ${ssao.enabled ? 'on' : 'off'}`);
+    }
+
+    render(): void {
+        this.composer.render();
+    }
+
+    setSize(width: number, height: number): void {
+        this.composer.setSize(width, height);
+    }
+
+    dispose(): void {
+        this.lutPass.lut?.dispose();
+        // The composer only frees its own render targets, not those of the passes
+        for (const pass of [this.renderPass, this.ssaoPass, this.bloomPass, this.outputPass, this.lutPass]) pass.dispose();
+        this.composer.dispose();
+        this.renderer.toneMapping = THREE.NoToneMapping;
+        this.renderer.toneMappingExposure = 1;
+    }
+}
+
+/**
+ * A 3D lookup table applying `grading` to display colours: temperature, then
+ * contrast and saturation, then shadows and highlights pulled towards their tints.
+ */
+export function createColorGradingLUT(grading: ColorGradingParams): THREE.Data3DTexture {
+    const saturation = grading.saturation ?? 1;
+    const contrast = grading.contrast ?? 1;
+    const temperature = grading.temperature ?? 0;
+    const shadowTint = normalizedTint(grading.shadowTint);
+    const highlightTint = normalizedTint(grading.highlightTint);
+
+    const data = new Uint8Array(LUT_SIZE * LUT_SIZE * LUT_SIZE * 4);
+    const color = [0, 0, 0];
+    for (let b = 0; b < LUT_SIZE; b++) {
+        for (let g = 0; g < LUT_SIZE; g++) {
+            for (let r = 0; r < LUT_SIZE; r++) {
+                color[0] = r / (LUT_SIZE - 1) * (1 + temperature * 0.1);
+                color[1] = g / (LUT_SIZE - 1);
+                color[2] = b / (LUT_SIZE - 1) * (1 - temperature * 0.1);
+
+                let luminance = color[0] * 0.2126 + color[1] * 0.7152 + color[2] * 0.0722;
+                for (let c = 0; c < 3; c++) {
+                    const contrasted = (color[c] - 0.5) * contrast + 0.5;
+                    color[c] = luminance + (contrasted - luminance) * saturation;
+                }
+
+                luminance = Math.min(Math.max(color[0] * 0.2126 + color[1] * 0.7152 + color[2] * 0.0722, 0), 1);
+                const shadowAmount = (1 - luminance) * SPLIT_TONE_STRENGTH;
+                const highlightAmount = luminance * SPLIT_TONE_STRENGTH;
+                const index = (r + g * LUT_SIZE + b * LUT_SIZE * LUT_SIZE) * 4;
+                for (let c = 0; c < 3; c++) {
+                    let value = color[c];
+                    value += (value * shadowTint[c] - value) * shadowAmount;
+                    value += (value * highlightTint[c] - value) * highlightAmount;
+                    data[index + c] = Math.round(Math.min(Math.max(value, 0), 1) * 255);
+                }
+                data[index + 3] = 255;
+            }
+        }
+    }
+
+    const texture = new THREE.Data3DTexture(data, LUT_SIZE, LUT_SIZE, LUT_SIZE);
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.wrapS = texture.wrapT = texture.wrapR = THREE.ClampToEdgeWrapping;
+    texture.unpackAlignment = 1;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+// A tint scaled to keep brightness, so it only shifts hue (white = no tint)
+function normalizedTint(tint?: { r: number; g: number; b: number }): number[] {
+    if (!tint) return [1, 1, 1];
+    const luminance = Math.max(tint.r * 0.2126 + tint.g * 0.7152 + tint.b * 0.0722, 0.01);
+    return [tint.r / luminance, tint.g / luminance, tint.b / luminance];
+}
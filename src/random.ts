@@ -0,0 +1,47 @@
+/**
+ * Seeded randomness helpers
+ *
+ * A world is identified by a single 32-bit seed. Every noise table and random
+ * stream is derived from it with deriveSeed(), so one parameter file always
+ * reproduces the same world.
+ */
+
+// Mulberry32 seeded PRNG: returns floats in [0, 1)
+export function mulberry32(a: number): () => number {
+    return function() {
+        a |= 0;
+        a = (a + 0x6D2B79F5) | 0;
+        let t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// 32-bit FNV-1a hash of a string
+export function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Seed for one named channel of a world (e.g. 'biomeControl', 'elevation:Plains').
+ * An optional salt (such as a per-layer seed from the parameter file) varies the
+ * channel without breaking its dependency on the world seed.
+ */
+export function deriveSeed(worldSeed: number, channel: string, salt: number = 0): number {
+    let h = (worldSeed >>> 0) ^ hashString(channel);
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    h ^= h >>> 16;
+    h = (h + Math.imul(Math.floor(salt) | 0, 0x9e3779b1)) | 0;
+    return h >>> 0;
+}
+
+// Fresh seed for a brand new world (the only place Math.random feeds world generation)
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
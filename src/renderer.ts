@@ -6,22 +6,67 @@ import { updateMovement } from './player';
 import { TerrainGenerator } from './terrain';
 
 import { AssetManager } from './asset-manager';
+import { updateWaterEffects } from './water-material';
+import { computeSkyState, normalizeHour, DAY_LENGTH_SECONDS } from './time-of-day';
+import { SKY_SCATTERING_GLSL, createScatteringUniforms, applyScatteringSettings } from './sky-scattering';
+import { CascadedShadows, DEFAULT_SHADOW_PARAMS } from './shadows';
+import { SkyEnvironment } from './sky-environment';
+import { PostProcessing, DEFAULT_POST_PROCESSING } from './post-processing';
+import { MaterialPatches } from './material-patches';
+import { HeightFog, resolveFogSettings, blendBiomeFog } from './height-fog';
+import type { FogSettings } from './height-fog';
+import type { ShadowParams, FogParams, PostProcessingParams } from './types';
 
 let renderer: THREE.WebGLRenderer;
 let scene: THREE.Scene;
 let skybox: THREE.Mesh;
 let skyMaterial: THREE.ShaderMaterial;
-let envMap: THREE.CubeTexture | null = null;
 
-export function initRenderer(skyboxParams: any = null, lightingParams: any = null) {
+// Shadow and fog shader patches for every material that enters the scene
+let materialPatches: MaterialPatches;
+
+// Reflections of the sky, re-rendered whenever it changes (at most every few game minutes while the day plays)
+let skyEnvironment: SkyEnvironment | null = null;
+let environmentDirty = false;
+let environmentHour: number | null = null;
+const ENVIRONMENT_HOUR_STEP = 0.05;
+
+// The world's own (midday) lighting and sky, which the time of day modulates
+let ambientLight: THREE.AmbientLight;
+let directionalLight: THREE.DirectionalLight;
+let baseLighting: any = null;
+let baseSkybox: any = null;
+let lastFrameTime = performance.now();
+
+// Cascaded shadows are built lazily on the next frame (the camera may not exist yet)
+let shadowParams: ShadowParams = DEFAULT_SHADOW_PARAMS;
+let shadows: CascadedShadows | null = null;
+
+// Post-processing is built lazily like the shadows, and only when enabled
+let postProcessingParams: PostProcessingParams = DEFAULT_POST_PROCESSING;
+let postProcessing: PostProcessing | null = null;
+
+// Height fog from the world's fog block and skybox, tinted by the time of day
+let heightFog: HeightFog;
+let baseFog: FogParams | undefined;
+let worldFog: FogSettings;
+let resetFog = true;
+const fogTint = new THREE.Color(1, 1, 1);
+
+const DEFAULT_SKY_COLOR = 0x87CEEB;
+
+export function initRenderer(skyboxParams: any = null, lightingParams: any = null, shadowSettings?: ShadowParams, fogParams?: FogParams, postProcessingSettings?: PostProcessingParams) {
     // Create scene
     scene = new THREE.Scene();
-    scene.fog = new THREE.Fog(0x87CEEB, 1000, 10000);
+    materialPatches = new MaterialPatches(scene);
+    heightFog = new HeightFog(DEFAULT_SKY_COLOR);
+    scene.fog = heightFog;
+    materialPatches.add(heightFog);
 
     // Create renderer
     renderer = new THREE.WebGLRenderer({ antialias: true });
     renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setClearColor(0x87CEEB);
+    renderer.setClearColor(DEFAULT_SKY_COLOR);
     renderer.shadowMap.enabled = true;
     renderer.shadowMap.type = THREE.PCFSoftShadowMap;
 
@@ -31,73 +76,43 @@ export function initRenderer(skyboxParams: any = null, lightingParams: any = nul
     }
 
     setupLighting(lightingParams);
-    createSkybox(skyboxParams);
+    createSkybox(skyboxParams, fogParams);
+    updateShadows(shadowSettings);
+    updatePostProcessing(postProcessingSettings);
 
     window.addEventListener('resize', onWindowResize);
 
     return { renderer, scene };
 }
 
-function createEnvironmentMap(): THREE.CubeTexture {
-    // Create a simple procedural environment map for reflections
-    const size = 128;
-    const canvas = document.createElement('canvas');
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext('2d')!;
-
-    // Create 6 faces for the cube map with gradient sky
-    const faces = [];
-    for (let i = 0; i < 6; i++) {
-        ctx.clearRect(0, 0, size, size);
-        
-        // Create a simple sky gradient
-        const gradient = ctx.createLinearGradient(0, 0, 0, size);
-        gradient.addColorStop(0, '#87CEEB'); // Sky blue
-        gradient.addColorStop(1, '#E0F6FF'); // Light blue
-        
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, size, size);
-        
-        faces.push(canvas.toDataURL());
-    }
-
-    const loader = new THREE.CubeTextureLoader();
-    return loader.load(faces);
-}
-
-export function getEnvironmentMap(): THREE.CubeTexture | null {
-    if (!envMap) {
-        envMap = createEnvironmentMap();
-    }
-    return envMap;
+// Prefiltered sky for envMap reflections (null until the renderer is initialised)
+export function getEnvironmentMap(): THREE.Texture | null {
+    return skyEnvironment?.texture ?? null;
 }
 
 function setupLighting(params: any) {
+    baseLighting = params;
+
     // Ambient light
     const ambientColor = params ? new THREE.Color(params.ambient.color.r, params.ambient.color.g, params.ambient.color.b) : new THREE.Color(0x404040);
     const ambientIntensity = params ? params.ambient.intensity : 0.6;
-    const ambientLight = new THREE.AmbientLight(ambientColor, ambientIntensity);
+    ambientLight = new THREE.AmbientLight(ambientColor, ambientIntensity);
     scene.add(ambientLight);
 
     // Directional light (sun)
     const directionalColor = params ? new THREE.Color(params.directional.color.r, params.directional.color.g, params.directional.color.b) : new THREE.Color(0xffffff);
     const directionalIntensity = params ? params.directional.intensity : 0.8;
-    const directionalLight = new THREE.DirectionalLight(directionalColor, directionalIntensity);
+    directionalLight = new THREE.DirectionalLight(directionalColor, directionalIntensity);
     directionalLight.position.set(params ? params.directional.position.x : 100, params ? params.directional.position.y : 100, params ? params.directional.position.z : 50);
-    directionalLight.castShadow = true;
-    directionalLight.shadow.mapSize.width = 2048;
-    directionalLight.shadow.mapSize.height = 2048;
-    directionalLight.shadow.camera.near = 0.5;
-    directionalLight.shadow.camera.far = 500;
-    directionalLight.shadow.camera.left = -100;
-    directionalLight.shadow.camera.right = 100;
-    directionalLight.shadow.camera.top = 100;
-    directionalLight.shadow.camera.bottom = -100;
+    // With cascaded shadows this light only describes the sun; the cascade lights copy it and do the lighting
+    directionalLight.visible = !shadowParams.enabled;
     scene.add(directionalLight);
 }
 
-function createSkybox(params: any) {
+function createSkybox(params: any, fogParams?: FogParams) {
+    baseSkybox = params;
+    setWorldFog(params, fogParams);
+
     // Create a fullscreen quad for the procedural sky
     const skyGeometry = new THREE.PlaneGeometry(2, 2);
 
@@ -114,6 +129,13 @@ function createSkybox(params: any) {
             zenithColor: { value: zenithColor },
             atmosphereColor: { value: atmosphereColor },
             atmosphereStrength: { value: atmosphereStrength },
+            sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+            moonDirection: { value: new THREE.Vector3(0, -1, 0) },
+            sunColor: { value: new THREE.Color(1, 1, 1) },
+            celestialStrength: { value: 0 }, // Sun and moon discs only show when the time of day drives the sky
+            useScattering: { value: false },
+            linearOutput: { value: false }, // The screen takes the colours as they are; render targets need linear light
+            ...createScatteringUniforms(),
         },
         vertexShader: `
             varying vec2 vUv;
@@ -129,7 +151,18 @@ function createSkybox(params: any) {
             uniform vec3 zenithColor;
             uniform vec3 atmosphereColor;
             uniform float atmosphereStrength;
+            uniform vec3 sunDirection;
+            uniform vec3 moonDirection;
+            uniform vec3 sunColor;
+            uniform float celestialStrength;
+            uniform bool useScattering;
+            uniform bool linearOutput;
             varying vec2 vUv;
+            ${SKY_SCATTERING_GLSL}
+
+            vec4 outputSky(vec3 color) {
+                return linearOutput ? sRGBTransferEOTF(vec4(color, 1.0)) : vec4(color, 1.0);
+            }
             
             void main() {
                 // Convert screen coordinates to world ray direction
@@ -137,6 +170,17 @@ function createSkybox(params: any) {
                 vec4 ndcPos = vec4(screenPos, 1.0, 1.0);
                 vec4 worldPos = cameraWorldMatrix * cameraProjectionMatrixInverse * ndcPos;
                 vec3 rayDir = normalize(worldPos.xyz);
+
+                if (useScattering) {
+                    // Physically based sky; only the moon is added on top
+                    vec3 viewPos = (cameraProjectionMatrixInverse * ndcPos).xyz;
+                    vec3 viewDir = normalize((cameraWorldMatrix * vec4(viewPos, 0.0)).xyz);
+                    vec3 scattered = scatterSky(viewDir);
+                    float moonAmount = max(dot(viewDir, moonDirection), 0.0);
+                    scattered += vec3(0.8, 0.85, 0.95) * smoothstep(0.9995, 0.9997, moonAmount) * smoothstep(-0.02, 0.02, viewDir.y) * celestialStrength;
+                    gl_FragColor = outputSky(scattered);
+                    return;
+                }
                 
                 // Calculate elevation angle (0 = horizon, 1 = zenith)
                 float elevation = rayDir.y * 0.5 + 0.5;
@@ -149,8 +193,15 @@ function createSkybox(params: any) {
                 float atmosphere = 1.0 - abs(rayDir.y);
                 atmosphere = pow(atmosphere, 2.0);
                 skyColor = mix(skyColor, atmosphereColor, atmosphere * atmosphereStrength);
+
+                // Sun disc with a soft glow, and a pale moon opposite it (both hidden below the horizon)
+                float aboveHorizon = smoothstep(-0.02, 0.02, rayDir.y);
+                float sunAmount = max(dot(rayDir, sunDirection), 0.0);
+                skyColor += sunColor * (pow(sunAmount, 12.0) * 0.3 + smoothstep(0.9994, 0.9997, sunAmount)) * aboveHorizon * celestialStrength;
+                float moonAmount = max(dot(rayDir, moonDirection), 0.0);
+                skyColor += vec3(0.8, 0.85, 0.95) * smoothstep(0.9995, 0.9997, moonAmount) * aboveHorizon * celestialStrength;
                 
-                gl_FragColor = vec4(skyColor, 1.0);
+                gl_FragColor = outputSky(skyColor);
             }
         `,
         depthWrite: false,
@@ -161,36 +212,90 @@ function createSkybox(params: any) {
     skybox = new THREE.Mesh(skyGeometry, skyMaterial);
     skybox.renderOrder = -1;
     skybox.frustumCulled = false;
+
+    // Follow whichever camera is rendering (the water's mirror camera as well as the player's);
+    // render targets (HDR post-processing, water, reflections) get linear colour
+    skybox.onBeforeRender = (activeRenderer, _scene, renderCamera) => {
+        skyMaterial.uniforms.linearOutput.value = activeRenderer.getRenderTarget() !== null;
+        skyMaterial.uniforms.cameraWorldMatrix.value.copy(renderCamera.matrixWorld);
+        skyMaterial.uniforms.cameraProjectionMatrixInverse.value.copy(renderCamera.projectionMatrixInverse);
+        skyMaterial.uniforms.viewerHeight.value = renderCamera.matrixWorld.elements[13];
+    };
+    applySkyModel(params);
     scene.add(skybox);
+
+    // The same sky on a second mesh, captured into the reflection cube map
+    const environmentSky = new THREE.Mesh(skyGeometry, skyMaterial);
+    environmentSky.frustumCulled = false;
+    environmentSky.onBeforeRender = skybox.onBeforeRender;
+    skyEnvironment = new SkyEnvironment(renderer, environmentSky);
+}
+
+// Gradient (default) or scattering sky, and the scattering settings from the skybox parameters
+function applySkyModel(params: any) {
+    const uniforms = skyMaterial.uniforms;
+    uniforms.useScattering.value = params?.model === 'scattering';
+    applyScatteringSettings(uniforms, params);
+    if (baseLighting) {
+        const color = baseLighting.directional.color;
+        uniforms.sunLightColor.value.setRGB(color.r, color.g, color.b);
+    }
+}
+
+function setWorldFog(skyboxParams: any, fogParams?: FogParams) {
+    baseFog = fogParams;
+    worldFog = resolveFogSettings(fogParams, skyboxParams);
+    resetFog = true;
 }
 
 function onWindowResize() {
     camera.aspect = window.innerWidth / window.innerHeight;
     camera.updateProjectionMatrix();
     renderer.setSize(window.innerWidth, window.innerHeight);
+    shadows?.resize();
+    postProcessing?.setSize(window.innerWidth, window.innerHeight);
 }
 
 export function startAnimationLoop(terrainGenerator: TerrainGenerator, assetManager: AssetManager) {
     requestAnimationFrame(() => startAnimationLoop(terrainGenerator, assetManager));
 
     updateMovement(terrainGenerator, assetManager);
+    terrainGenerator.updateChunks(state.cameraPosition);
 
     camera.position.copy(state.cameraPosition);
     camera.rotation.set(0, 0, 0);
     camera.rotateY(state.cameraRotation.y);
     camera.rotateX(state.cameraRotation.x);
 
-    if (skyMaterial) {
-        camera.updateMatrixWorld();
-        skyMaterial.uniforms.cameraWorldMatrix.value.copy(camera.matrixWorld);
-        skyMaterial.uniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse);
-    }
+    terrainGenerator.updateLevelOfDetail(camera.position);
 
-    renderer.render(scene, camera);
+    const now = performance.now();
+    const deltaSeconds = (now - lastFrameTime) / 1000;
+    updateTimeOfDay(deltaSeconds);
+    lastFrameTime = now;
+    updateSkyEnvironment();
+
+    camera.updateMatrixWorld();
+    updateShadowCascades();
+    updateFog(terrainGenerator, deltaSeconds);
+    updateWaterEffects(renderer, scene, camera);
+
+    if (postProcessingParams.enabled) {
+        if (!postProcessing) {
+            postProcessing = new PostProcessing(renderer, scene, camera, skybox);
+            postProcessing.configure(postProcessingParams);
+        }
+        postProcessing.render();
+    } else {
+        renderer.render(scene, camera);
+    }
 }
 
-export function updateSkybox(params: any) {
+// Sky colours and model, and the fog derived from them (fogParams overrides any of it)
+export function updateSkybox(params: any, fogParams?: FogParams) {
     if (!skyMaterial) return;
+    baseSkybox = params;
+    setWorldFog(params, fogParams);
     
     const horizonColor = params ? new THREE.Color(params.horizonColor.r, params.horizonColor.g, params.horizonColor.b) : new THREE.Color(0.94, 0.85, 1.0);
     const zenithColor = params ? new THREE.Color(params.zenithColor.r, params.zenithColor.g, params.zenithColor.b) : new THREE.Color(0.53, 0.81, 0.92);
@@ -201,19 +306,135 @@ export function updateSkybox(params: any) {
     skyMaterial.uniforms.zenithColor.value = zenithColor;
     skyMaterial.uniforms.atmosphereColor.value = atmosphereColor;
     skyMaterial.uniforms.atmosphereStrength.value = atmosphereStrength;
+    applySkyModel(params);
+    environmentDirty = true;
     
     console.log('Updated skybox with params:', params);
 }
 
 export function updateLighting(params: any) {
-    // Remove existing lights
-    const lightsToRemove = scene.children.filter(child => 
-        child instanceof THREE.AmbientLight || child instanceof THREE.DirectionalLight
-    );
-    lightsToRemove.forEach(light => scene.remove(light));
+    // Remove existing lights (the shadow cascades keep theirs)
+    scene.remove(ambientLight, directionalLight);
     
     // Add new lights with new parameters
     setupLighting(params);
+    if (skyMaterial) applySkyModel(baseSkybox);
+    applyTimeOfDay();
+    environmentDirty = true;
     
     console.log('Updated lighting with params:', params);
 }
+
+// Cascade count, resolution and range; enabled: false turns shadows off
+export function updateShadows(params?: ShadowParams) {
+    shadowParams = { ...DEFAULT_SHADOW_PARAMS, ...params };
+    shadows?.dispose();
+    shadows = null;
+    if (directionalLight) directionalLight.visible = !shadowParams.enabled;
+    renderer.shadowMap.enabled = shadowParams.enabled;
+}
+
+// Tone mapping, bloom, SSAO and colour grading; enabled: false renders straight to the screen
+export function updatePostProcessing(params?: PostProcessingParams) {
+    postProcessingParams = { ...DEFAULT_POST_PROCESSING, ...params };
+    postProcessing?.dispose();
+    postProcessing = null;
+}
+
+function updateShadowCascades() {
+    if (!shadowParams.enabled) return;
+    if (!shadows) shadows = new CascadedShadows(scene, camera, shadowParams, materialPatches);
+    shadows.update(directionalLight);
+}
+
+// Ease the fog towards the biomes under the camera (only if any biome has its own fog)
+function updateFog(terrainGenerator: TerrainGenerator, deltaSeconds: number) {
+    const sampler = terrainGenerator.sampler;
+    const target = sampler.biomes.some(biome => biome.fog)
+        ? blendBiomeFog(worldFog, sampler.getBiomeInfo(camera.position.x, camera.position.z).weights)
+        : worldFog;
+    const settings = { ...target, color: target.color.clone().multiply(fogTint) };
+
+    if (resetFog) {
+        heightFog.set(settings);
+        resetFog = false;
+    } else {
+        heightFog.setTarget(settings);
+    }
+    heightFog.update(Math.min(deltaSeconds, 0.1));
+    renderer.setClearColor(heightFog.color);
+}
+
+/**
+ * Set the hour (0-24) the sun and sky show, or null to go back to the world's
+ * fixed lighting and sky.
+ */
+export function setTimeOfDay(hour: number | null) {
+    state.timeOfDay = hour === null ? null : normalizeHour(hour);
+    if (state.timeOfDay === null) {
+        // Restore the untouched world lighting and sky
+        state.dayCycleRunning = false;
+        if (baseLighting) updateLighting(baseLighting);
+        if (baseSkybox) updateSkybox(baseSkybox, baseFog);
+        if (skyMaterial) skyMaterial.uniforms.celestialStrength.value = 0;
+        fogTint.setRGB(1, 1, 1);
+        environmentHour = null;
+        return;
+    }
+    applyTimeOfDay();
+}
+
+function updateSkyEnvironment() {
+    if (!environmentDirty || !skyEnvironment) return;
+    skyEnvironment.update();
+    environmentDirty = false;
+}
+
+// Advance the day while the timeline is playing
+function updateTimeOfDay(deltaSeconds: number) {
+    if (state.timeOfDay === null) {
+        // Fixed lighting: the sky's sun sits where the directional light is
+        if (skyMaterial) skyMaterial.uniforms.sunDirection.value.copy(directionalLight.position).normalize();
+        return;
+    }
+    if (state.dayCycleRunning) {
+        // Clamp so a backgrounded tab doesn't jump hours on its return
+        state.timeOfDay = normalizeHour(state.timeOfDay + Math.min(deltaSeconds, 0.1) * 24 / DAY_LENGTH_SECONDS);
+    }
+    applyTimeOfDay();
+}
+
+function applyTimeOfDay() {
+    if (state.timeOfDay === null || !baseLighting || !baseSkybox || !skyMaterial) return;
+    const sky = computeSkyState(state.timeOfDay, baseLighting, baseSkybox);
+
+    ambientLight.color.copy(sky.ambient.color);
+    ambientLight.intensity = sky.ambient.intensity;
+    directionalLight.color.copy(sky.directional.color);
+    directionalLight.intensity = sky.directional.intensity;
+    directionalLight.position.copy(sky.directional.direction).multiplyScalar(150);
+
+    const uniforms = skyMaterial.uniforms;
+    uniforms.horizonColor.value.copy(sky.horizonColor);
+    uniforms.zenithColor.value.copy(sky.zenithColor);
+    uniforms.atmosphereColor.value.copy(sky.atmosphereColor);
+    uniforms.sunDirection.value.copy(sky.sunDirection);
+    uniforms.moonDirection.value.copy(sky.moonDirection);
+    uniforms.sunColor.value.copy(sky.sunColor);
+    uniforms.celestialStrength.value = 1;
+
+    // Hour differences wrap at midnight
+    const hoursSinceCapture = environmentHour === null ? Infinity : Math.abs(((state.timeOfDay - environmentHour + 36) % 24) - 12);
+    if (hoursSinceCapture >= ENVIRONMENT_HOUR_STEP) {
+        environmentHour = state.timeOfDay;
+        environmentDirty = true;
+    }
+
+    // Fog changes with the horizon: warm at sunset, dark at night
+    const midday = baseSkybox.horizonColor;
+    fogTint.setRGB(
+        Math.min(sky.horizonColor.r / Math.max(midday.r, 0.05), 2),
+        Math.min(sky.horizonColor.g / Math.max(midday.g, 0.05), 2),
+        Math.min(sky.horizonColor.b / Math.max(midday.b, 0.05), 2)
+    );
+}
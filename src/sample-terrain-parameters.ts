@@ -1,6 +1,7 @@
 import type { FullTerrainParameters } from "./types";
 
 export const sampleTerrainParameters: FullTerrainParameters = {
+    seed: 1337, // World seed - the same seed always rebuilds the same world
     global: {
         width: 2000,
         depth: 2000,
@@ -8,6 +9,47 @@ export const sampleTerrainParameters: FullTerrainParameters = {
         segments: 1000,
         offset: 0
     },
+    chunks: {
+        enabled: false, // Set to true for an endless world streamed around the camera
+        chunkSize: 256,
+        chunkSegments: 64,
+        viewDistance: 1500,
+        maxChunksPerFrame: 2
+    },
+    lod: {
+        enabled: false, // Set to true to render distant patches at lower resolution
+        levels: 4,
+        levelDistance: 400,
+        patchSize: 250,
+        patchSegments: 64
+    },
+    erosion: {
+        enabled: false, // Set to true to weather the heightmap (adds seconds to every generation)
+        iterations: 150000, // Raindrops (about one per 7 grid cells at 1000 segments)
+        rainAmount: 1,
+        sedimentCapacity: 4,
+        erosionRate: 0.3,
+        depositionRate: 0.3,
+        evaporationRate: 0.02,
+        thermalIterations: 10,
+        talusAngle: 40
+    },
+    water: {
+        enabled: false, // Set to true for seas, lakes and rivers simulated on the finished terrain
+        hasOcean: true,
+        oceanLevel: -40,
+        riverDensity: 0.5,
+        lakeDensity: 0.3,
+        waterfallThreshold: 15,
+        precipitation: 0.6,
+        resolution: 256,
+        color: { r: 0.05, g: 0.35, b: 0.5 },
+        carve: true,
+        riverDepth: 6,
+        riverWidth: 24,
+        bankWidth: 20,
+        sedimentColor: { r: 0.45, g: 0.4, b: 0.3 }
+    },
     skybox: {
         horizonColor: { r: 0.53, g: 0.81, b: 0.92 },
         zenithColor: { r: 0.1, g: 0.2, b: 0.4 },
@@ -18,9 +60,40 @@ export const sampleTerrainParameters: FullTerrainParameters = {
         ambient: { color: { r: 0.6, g: 0.7, b: 0.8 }, intensity: 0.5 },
         directional: { color: { r: 1.0, g: 0.9, b: 0.8 }, intensity: 1.0, position: { x: 100, y: 100, z: 50 } }
     },
-    
+    fog: {
+        density: 0.00012,
+        heightFalloff: 0.002,
+        baseHeight: 0
+    },
+    timeOfDay: 15,
+    postProcessing: {
+        enabled: false, // Set to true for HDR with bloom, tone mapping and colour grading
+        toneMapping: 'aces',
+        exposure: 1.1,
+        bloom: { enabled: true, strength: 0.6, radius: 0.4, threshold: 1.5 },
+        ssao: { enabled: false, radius: 16 },
+        colorGrading: { saturation: 1.1, contrast: 1.05, temperature: 0.1 }
+    },
+    shadows: {
+        enabled: false, // Set to true for cascaded sun shadows (a missing block also turns them on)
+        cascades: 3,
+        mapSize: 2048,
+        maxDistance: 1500
+    },
+
+    // World-wide layers on top of the biomes (amplitudes are fractions of maxHeight)
+    terrain: {
+        base: { seed: 0, scale: 0.0008, octaves: 4, persistence: 0.5, lacunarity: 2.0, amplitude: 0.15 },
+        mountains: { seed: 0, scale: 0.0015, octaves: 6, persistence: 0.5, lacunarity: 2.1, amplitude: 0.4 },
+        details: { seed: 0, scale: 0.02, octaves: 3, persistence: 0.4, lacunarity: 2.5, amplitude: 0.01 }
+    },
+    environment: {
+        temperature: { seed: 0, scale: 0.0004, octaves: 3 },
+        moisture: { seed: 0, scale: 0.0006, octaves: 3 }
+    },
+
     biomeControl: {
-        seed: Math.floor(Math.random() * 65536), // Use a random seed
+        seed: 0, // Salt on top of the world seed
         scale: 0.0005, // Very low frequency for large biome areas
         octaves: 2
     },
@@ -84,6 +157,11 @@ export const sampleTerrainParameters: FullTerrainParameters = {
             colorRamp: [
                 { stop: 0, color: { r: 0.2, g: 0.6, b: 0.1 } },
                 { stop: 1, color: { r: 0.3, g: 0.7, b: 0.2 } }
+            ],
+            textures: [
+                { preset: 'grass', slope: [0, 25] },
+                { preset: 'dirt', slope: [20, 35] },
+                { preset: 'rock', slope: [35, 90], scale: 12 }
             ]
             // No material properties = standard material
         },
@@ -125,6 +203,15 @@ export const sampleTerrainParameters: FullTerrainParameters = {
                 { stop: 0, color: { r: 0.4, g: 0.4, b: 0.4 } },
                 { stop: 0.8, color: { r: 0.8, g: 0.8, b: 0.85 } },
                 { stop: 1, color: { r: 0.95, g: 0.95, b: 1.0 } } // Snow caps
+            ],
+            textures: [
+                { preset: 'gravel', height: [0, 0.3], slope: [0, 30] },
+                { preset: 'rock', slope: [30, 90], scale: 16 },
+                { preset: 'snow', height: [0.75, 1], slope: [0, 40] }
+            ],
+            colorRules: [
+                { color: { r: 0.35, g: 0.33, b: 0.3 }, slope: [40, 90], texture: 'rock' },                      // Bare cliffs
+                { color: { r: 0.95, g: 0.95, b: 1.0 }, altitude: [380, 100000], slope: [0, 45], dither: 30, texture: 'snow' } // Ragged snow line
             ]
             // No material properties = standard material
         },
@@ -144,6 +231,7 @@ export const sampleTerrainParameters: FullTerrainParameters = {
                 { stop: 0.7, color: { r: 0.9, g: 0.3, b: 0.0 } },
                 { stop: 1, color: { r: 1.0, g: 0.5, b: 0.0 } } // Lava glow
             ],
+            fog: { color: { r: 0.3, g: 0.24, b: 0.2 }, density: 0.0008, baseHeight: 250 }, // Volcanic ash
             material: {
                 emission: 0.9,
                 metalness: 0.2,
@@ -0,0 +1,111 @@
+/**
+ * Cascaded Shadows
+ *
+ * Splits the camera frustum into cascades, each with its own shadow map, so
+ * nearby terrain gets crisp shadows while distant mountains still cast them.
+ * Wraps three's CSM addon:
+ * - The cascade lights copy the direction, colour and intensity of the scene's
+ *   own sun light every frame (time of day keeps working)
+ * - Every lit material that appears in the scene (terrain, chunks, placed
+ *   assets) is patched for cascades through the shared material patches
+ */
+
+import * as THREE from 'three';
+import { CSM } from 'three/examples/jsm/csm/CSM.js';
+import type { MaterialPatch, MaterialPatches } from './material-patches';
+import type { ShadowParams } from './types';
+
+export const DEFAULT_SHADOW_PARAMS: ShadowParams = {
+    enabled: true,
+    cascades: 3,
+    mapSize: 2048,
+    maxDistance: 1500
+};
+
+// Extra depth in front of each cascade so mountains outside the view still cast into it
+const LIGHT_MARGIN = 500;
+
+// Each rebuild gets its own program keys, otherwise cached programs skip CSM's onBeforeCompile
+let nextGeneration = 0;
+
+export class CascadedShadows implements MaterialPatch {
+    readonly cacheKey = `csm${++nextGeneration}`;
+
+    private csm: CSM;
+    private patches: MaterialPatches;
+    private lightDirection = new THREE.Vector3();
+
+    constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, params: ShadowParams, patches: MaterialPatches) {
+        const maxDistance = params.maxDistance ?? DEFAULT_SHADOW_PARAMS.maxDistance!;
+        this.csm = new CSM({
+            camera,
+            parent: scene,
+            cascades: params.cascades ?? DEFAULT_SHADOW_PARAMS.cascades,
+            shadowMapSize: params.mapSize ?? DEFAULT_SHADOW_PARAMS.mapSize,
+            maxFar: maxDistance,
+            lightMargin: LIGHT_MARGIN,
+            lightFar: maxDistance * 2 + LIGHT_MARGIN * 2,
+            shadowBias: -0.0002,
+            mode: 'practical'
+        });
+        this.csm.fade = true;
+        this.updateNormalBias();
+        this.patches = patches;
+        patches.add(this);
+        console.log(`🌓 Cascaded shadows: ${this.csm.cascades} cascades at ${this.csm.shadowMapSize}px up to ${maxDistance} units`);
+    }
+
+    /**
+     * Follow `sun` and the camera. Call once per frame after the camera moved.
+     */
+    update(sun: THREE.DirectionalLight): void {
+        // CSM's direction points from the light into the scene
+        this.lightDirection.subVectors(sun.target.position, sun.position).normalize();
+        this.csm.lightDirection.copy(this.lightDirection);
+        for (const light of this.csm.lights) {
+            light.color.copy(sun.color);
+            light.intensity = sun.intensity;
+        }
+        this.csm.update();
+    }
+
+    // The cascade splits depend on the camera's projection
+    resize(): void {
+        this.csm.updateFrustums();
+        this.updateNormalBias();
+    }
+
+    dispose(): void {
+        this.csm.remove();
+        // CSM strips its defines and deletes each material's hook; removing the patch afterwards puts the others back
+        this.csm.dispose();
+        this.patches.remove(this);
+        for (const light of this.csm.lights) light.dispose();
+    }
+
+    appliesTo(material: THREE.Material): boolean {
+        return isLitMaterial(material);
+    }
+
+    setup(material: THREE.Material): THREE.Material['onBeforeCompile'] {
+        this.csm.setupMaterial(material);
+        // Don't keep disposed terrain materials alive in CSM's registry
+        material.addEventListener('dispose', () => this.csm.shaders.delete(material));
+        return material.onBeforeCompile;
+    }
+
+    // Push shadow lookups out along the normal by about a texel of each cascade (avoids acne on slopes)
+    private updateNormalBias(): void {
+        for (const light of this.csm.lights) {
+            const camera = light.shadow.camera;
+            light.shadow.normalBias = (camera.right - camera.left) / this.csm.shadowMapSize * 1.5;
+        }
+    }
+}
+
+function isLitMaterial(material: THREE.Material): boolean {
+    return material instanceof THREE.MeshStandardMaterial
+        || material instanceof THREE.MeshLambertMaterial
+        || material instanceof THREE.MeshPhongMaterial
+        || (material instanceof THREE.ShaderMaterial && material.lights);
+}
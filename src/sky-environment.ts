@@ -0,0 +1,43 @@
+/**
+ * Sky Environment
+ *
+ * Reflections of the live sky. The sky shader is drawn into a cube map and
+ * prefiltered (PMREM) so glossy and rough materials both reflect the sky, sun
+ * and sunset the player actually sees. The prefiltered texture is reused on
+ * every refresh, so materials holding it pick up changes without rebuilding.
+ */
+
+import * as THREE from 'three';
+
+const CUBE_SIZE = 128;
+
+export class SkyEnvironment {
+    private scene = new THREE.Scene();
+    private cubeTarget = new THREE.WebGLCubeRenderTarget(CUBE_SIZE, { type: THREE.HalfFloatType });
+    private cubeCamera = new THREE.CubeCamera(0.1, 10, this.cubeTarget);
+    private renderer: THREE.WebGLRenderer;
+    private pmrem: THREE.PMREMGenerator;
+    private pmremTarget: THREE.WebGLRenderTarget;
+
+    // `sky` is drawn on its own for the capture (it must output linear colour)
+    constructor(renderer: THREE.WebGLRenderer, sky: THREE.Object3D) {
+        this.renderer = renderer;
+        this.scene.add(sky);
+        this.pmrem = new THREE.PMREMGenerator(renderer);
+        this.pmremTarget = this.capture();
+    }
+
+    get texture(): THREE.Texture {
+        return this.pmremTarget.texture;
+    }
+
+    // Re-render the sky after its colours, sun or model changed
+    update(): void {
+        this.capture(this.pmremTarget);
+    }
+
+    private capture(target?: THREE.WebGLRenderTarget): THREE.WebGLRenderTarget {
+        this.cubeCamera.update(this.renderer, this.scene);
+        return this.pmrem.fromCubemap(this.cubeTarget.texture, target);
+    }
+}
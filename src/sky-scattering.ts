@@ -0,0 +1,139 @@
+/**
+ * Sky Scattering
+ *
+ * Single-scattering atmosphere for the skybox shader (skybox.model = 'scattering'):
+ * - Rayleigh scattering from the air (blue skies, red sunsets)
+ * - Mie scattering from haze, scaled by turbidity (the bright halo round the sun)
+ * - Ozone absorption (the deep blue of twilight)
+ * Each view ray is marched through a spherical shell of atmosphere around a
+ * planet of configurable radius, with a second march towards the sun for the
+ * light reaching each sample.
+ */
+
+import * as THREE from 'three';
+
+export const DEFAULT_PLANET_RADIUS = 6371;   // km
+export const DEFAULT_TURBIDITY = 2;
+export const DEFAULT_OZONE = 1;
+export const DEFAULT_SUN_INTENSITY = 20;
+
+export interface ScatteringSettings {
+    planetRadius?: number;   // km
+    turbidity?: number;      // 1 (clear) to 10+ (heavy haze)
+    ozone?: number;          // Multiplier on Earth's ozone layer
+    sunIntensity?: number;
+}
+
+export function createScatteringUniforms() {
+    return {
+        planetRadius: { value: DEFAULT_PLANET_RADIUS * 1000 },
+        turbidity: { value: DEFAULT_TURBIDITY },
+        ozone: { value: DEFAULT_OZONE },
+        sunIntensity: { value: DEFAULT_SUN_INTENSITY },
+        sunLightColor: { value: new THREE.Color(1, 1, 1) },
+        viewerHeight: { value: 1 }
+    };
+}
+
+export function applyScatteringSettings(uniforms: Record<string, THREE.IUniform>, settings: ScatteringSettings | null) {
+    uniforms.planetRadius.value = (settings?.planetRadius ?? DEFAULT_PLANET_RADIUS) * 1000;
+    uniforms.turbidity.value = settings?.turbidity ?? DEFAULT_TURBIDITY;
+    uniforms.ozone.value = settings?.ozone ?? DEFAULT_OZONE;
+    uniforms.sunIntensity.value = settings?.sunIntensity ?? DEFAULT_SUN_INTENSITY;
+}
+
+// GLSL: vec3 scatterSky(vec3 rayDir) -> tone-mapped sky colour. Needs sunDirection declared by the including shader.
+export const SKY_SCATTERING_GLSL = `
+    uniform float planetRadius;
+    uniform float turbidity;
+    uniform float ozone;
+    uniform float sunIntensity;
+    uniform vec3 sunLightColor;
+    uniform float viewerHeight;
+
+    #define SCATTER_PI 3.141592653589793
+    const int PRIMARY_STEPS = 12;
+    const int LIGHT_STEPS = 4;
+    const float ATMOSPHERE_HEIGHT = 100e3;
+    const float RAYLEIGH_SCALE_HEIGHT = 8e3;
+    const float MIE_SCALE_HEIGHT = 1.2e3;
+    const float MIE_G = 0.758;
+    const vec3 RAYLEIGH_COEFFICIENT = vec3(5.5e-6, 13.0e-6, 22.4e-6);
+    const float MIE_COEFFICIENT = 10.5e-6;  // Per unit of turbidity
+    const vec3 OZONE_COEFFICIENT = vec3(0.65e-6, 1.881e-6, 0.085e-6);
+
+    // Distances to the near and far intersections with a sphere at the origin (far < near on a miss)
+    vec2 raySphere(vec3 origin, vec3 dir, float radius) {
+        float b = dot(origin, dir);
+        float c = dot(origin, origin) - radius * radius;
+        float d = b * b - c;
+        if (d < 0.0) return vec2(1e5, -1e5);
+        d = sqrt(d);
+        return vec2(-b - d, -b + d);
+    }
+
+    // Rayleigh, Mie and ozone densities at a height above the ground (ozone peaks at 25 km)
+    vec3 atmosphereDensity(float height) {
+        return vec3(
+            exp(-height / RAYLEIGH_SCALE_HEIGHT),
+            exp(-height / MIE_SCALE_HEIGHT),
+            max(0.0, 1.0 - abs(height - 25e3) / 15e3)
+        );
+    }
+
+    vec3 extinction(vec3 opticalDepth) {
+        return exp(-(RAYLEIGH_COEFFICIENT * opticalDepth.x
+            + 1.1 * MIE_COEFFICIENT * turbidity * opticalDepth.y
+            + OZONE_COEFFICIENT * ozone * opticalDepth.z));
+    }
+
+    vec3 scatterSky(vec3 rayDir) {
+        vec3 origin = vec3(0.0, planetRadius + max(viewerHeight, 1.0), 0.0);
+        float atmosphereRadius = planetRadius + ATMOSPHERE_HEIGHT;
+
+        // March to the edge of the atmosphere, or to the ground below the horizon
+        float rayLength = max(raySphere(origin, rayDir, atmosphereRadius).y, 0.0);
+        vec2 ground = raySphere(origin, rayDir, planetRadius);
+        bool hitsGround = ground.x > 0.0 && ground.y >= ground.x;
+        if (hitsGround) rayLength = min(rayLength, ground.x);
+        float stepSize = rayLength / float(PRIMARY_STEPS);
+
+        vec3 opticalDepth = vec3(0.0);
+        vec3 rayleighSum = vec3(0.0);
+        vec3 mieSum = vec3(0.0);
+        for (int i = 0; i < PRIMARY_STEPS; i++) {
+            vec3 samplePoint = origin + rayDir * (float(i) + 0.5) * stepSize;
+            vec3 density = atmosphereDensity(length(samplePoint) - planetRadius) * stepSize;
+            opticalDepth += density;
+
+            // Sunlight reaching this sample
+            float lightStep = raySphere(samplePoint, sunDirection, atmosphereRadius).y / float(LIGHT_STEPS);
+            vec3 lightDepth = vec3(0.0);
+            for (int j = 0; j < LIGHT_STEPS; j++) {
+                vec3 lightPoint = samplePoint + sunDirection * (float(j) + 0.5) * lightStep;
+                lightDepth += atmosphereDensity(length(lightPoint) - planetRadius) * lightStep;
+            }
+
+            vec3 attenuation = extinction(opticalDepth + lightDepth);
+            rayleighSum += density.x * attenuation;
+            mieSum += density.y * attenuation;
+        }
+
+        float mu = dot(rayDir, sunDirection);
+        float g2 = MIE_G * MIE_G;
+        float rayleighPhase = 3.0 / (16.0 * SCATTER_PI) * (1.0 + mu * mu);
+        float miePhase = 3.0 / (8.0 * SCATTER_PI) * ((1.0 - g2) * (1.0 + mu * mu)) / ((2.0 + g2) * pow(1.0 + g2 - 2.0 * MIE_G * mu, 1.5));
+
+        vec3 color = sunIntensity * sunLightColor * (
+            rayleighPhase * RAYLEIGH_COEFFICIENT * rayleighSum +
+            miePhase * MIE_COEFFICIENT * turbidity * mieSum);
+
+        // Sun disc, dimmed by the air in front of it
+        if (!hitsGround) {
+            color += sunIntensity * sunLightColor * smoothstep(0.99985, 0.99995, mu) * extinction(opticalDepth);
+        }
+
+        // Simple exposure curve from HDR radiance to displayable colour
+        return 1.0 - exp(-color);
+    }
+`;
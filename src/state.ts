@@ -18,6 +18,8 @@ interface StateType {
     jump: boolean;
     devMode: boolean;
     isPlayerMode: boolean; // Add this to the type definition
+    timeOfDay: number | null; // Hour 0-24, or null for the world's fixed lighting
+    dayCycleRunning: boolean;
 }
 
 export const state = {
@@ -35,6 +37,8 @@ export const state = {
     isGrounded: false,
     jump: false,
     devMode: true,
+    timeOfDay: null,
+    dayCycleRunning: false,
 } as StateType;
 
 // Add a getter/setter for player mode to simplify logic
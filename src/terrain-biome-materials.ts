@@ -0,0 +1,108 @@
+/**
+ * Terrain Biome Materials
+ *
+ * The surface properties (emission, metalness, roughness, iridescence) of each
+ * biome for the single terrain shader. Biomes with identical properties share a
+ * material slot; every vertex carries its four strongest slots and their
+ * weights, and the shader looks the properties up per slot, so a glowing or
+ * metallic biome only changes the ground it covers. Nothing in here touches
+ * THREE, so the weights are computed in the generation workers.
+ */
+
+import type { BiomeProfile, MaterialProperties } from './types';
+
+export const MAX_MATERIAL_SLOTS = 16;       // Uniform array size in the terrain shader
+export const MATERIAL_SLOTS_PER_VERTEX = 4; // vec4 of slot indices + vec4 of weights
+export const MATERIAL_VALUES_PER_VERTEX = MATERIAL_SLOTS_PER_VERTEX * 2;
+
+// Biomes more transparent than this are drawn separately (they need blending and depth sorting)
+export const TRANSPARENT_BIOME_THRESHOLD = 0.5;
+
+export interface SurfaceProperties {
+    emission: number;      // 0-1, glow in the ground's own colour
+    metalness: number;
+    roughness: number;
+    iridescence: number;
+}
+
+// Plain terrain: fully rough dielectric (slot 0 is always this)
+export const DEFAULT_SURFACE: SurfaceProperties = { emission: 0, metalness: 0, roughness: 1, iridescence: 0 };
+
+export interface ResolvedBiomeMaterials {
+    slots: SurfaceProperties[];
+    slotOfBiome: Map<BiomeProfile, number>;
+}
+
+// Reflective biomes without an explicit roughness are made smooth
+export function surfaceProperties(material?: MaterialProperties): SurfaceProperties {
+    if (!material) return DEFAULT_SURFACE;
+    return {
+        emission: material.emission ?? 0,
+        metalness: material.metalness ?? 0,
+        roughness: material.roughness ?? 1 - (material.reflectivity ?? 0) * 0.8,
+        iridescence: material.iridescence ?? 0
+    };
+}
+
+// Water and glass-like biomes, which can't be drawn by the opaque terrain shader
+export function isTransparentBiome(biome: BiomeProfile): boolean {
+    return !!biome.material && (!!biome.material.isWater || (biome.material.transparency ?? 0) > TRANSPARENT_BIOME_THRESHOLD);
+}
+
+/**
+ * Give every distinct set of surface properties a slot. Past MAX_MATERIAL_SLOTS
+ * biomes fall back to the plain terrain slot with a warning.
+ */
+export function resolveBiomeMaterials(biomes: BiomeProfile[]): ResolvedBiomeMaterials {
+    const slots: SurfaceProperties[] = [DEFAULT_SURFACE];
+    const slotByKey = new Map<string, number>([[JSON.stringify(DEFAULT_SURFACE), 0]]);
+    const slotOfBiome = new Map<BiomeProfile, number>();
+
+    for (const biome of biomes) {
+        const properties = surfaceProperties(biome.material);
+        const key = JSON.stringify(properties);
+        let slot = slotByKey.get(key);
+        if (slot === undefined) {
+            if (slots.length >= MAX_MATERIAL_SLOTS) {
+                console.warn(`⚠️ More than ${MAX_MATERIAL_SLOTS} distinct biome materials - ${biome.name} uses plain terrain`);
+                slot = 0;
+            } else {
+                slot = slots.length;
+                slots.push(properties);
+                slotByKey.set(key, slot);
+            }
+        }
+        slotOfBiome.set(biome, slot);
+    }
+    return { slots, slotOfBiome };
+}
+
+// Slots picked by writeMaterialWeights, strongest first
+const strongest = new Int32Array(MATERIAL_SLOTS_PER_VERTEX);
+
+/**
+ * Write a vertex's strongest slots to `out` from `offset`: four slot indices,
+ * then their four weights (normalised, unused entries are slot 0 at weight 0).
+ * `slotWeights` holds the vertex's weight per slot.
+ */
+export function writeMaterialWeights(slotWeights: Float64Array, out: Float32Array, offset: number): void {
+    let count = 0;
+    let total = 0;
+    for (; count < MATERIAL_SLOTS_PER_VERTEX; count++) {
+        let best = -1;
+        for (let slot = 0; slot < slotWeights.length; slot++) {
+            if (slotWeights[slot] <= 0 || (best >= 0 && slotWeights[slot] <= slotWeights[best])) continue;
+            let taken = false;
+            for (let i = 0; i < count; i++) taken ||= strongest[i] === slot;
+            if (!taken) best = slot;
+        }
+        if (best < 0) break;
+        strongest[count] = best;
+        total += slotWeights[best];
+    }
+    total ||= 1;
+    for (let i = 0; i < MATERIAL_SLOTS_PER_VERTEX; i++) {
+        out[offset + i] = i < count ? strongest[i] : 0;
+        out[offset + MATERIAL_SLOTS_PER_VERTEX + i] = i < count ? slotWeights[strongest[i]] / total : 0;
+    }
+}
@@ -0,0 +1,454 @@
+/**
+ * Streaming Terrain Chunks
+ *
+ * Splits the world into fixed-size square tiles that are generated around the
+ * camera and discarded once it moves away, so the terrain has no edge and no
+ * single grid has to hold the whole world.
+ *
+ * Seams: every chunk samples heights from the same world-space function, so the
+ * border vertices shared by two neighbours land on identical positions. Normals
+ * are taken from central differences over a one-vertex apron that reaches into
+ * the neighbouring tile, which keeps shading continuous across chunk edges.
+ *
+ * Transparent biomes (water, glass): as in the single grid, triangles owned by
+ * them are split out of a chunk's index into meshes of their own that share its
+ * vertex buffers. With LOD the split is redone for each index the chunk gets.
+ */
+
+import * as THREE from 'three';
+import type { BiomeProfile, ChunkStreamingParams } from './types';
+import type { TerrainGenerator } from './terrain';
+import type { GeomipmapLOD } from './terrain-lod';
+import { MAX_TEXTURE_LAYERS } from './terrain-splat';
+import { MATERIAL_VALUES_PER_VERTEX } from './terrain-biome-materials';
+import { setSplatWeights, setMaterialWeights } from './terrain-material';
+import { registerWaterMesh } from './water-material';
+
+interface TerrainChunk {
+    key: string;
+    cx: number;
+    cz: number;
+    mesh: THREE.Mesh;
+    sizeX: number;         // World extent (chunkSize, less for the last row and column of a bounded world)
+    sizeZ: number;
+    heights: Float32Array; // (chunkSegments + 1)^2 heights, row-major by z
+    level: number;         // Current geomipmap level (0 = full resolution)
+    // Only filled for chunks that contain transparent biomes
+    quadBiomes: Uint8Array | null;                  // Primary biome index per quad, chunkSegments^2
+    transparentMeshes: Map<BiomeProfile, THREE.Mesh>;
+    splits: Map<THREE.BufferAttribute, SplitIndex>; // Split of every index the chunk has been given
+}
+
+// A chunk index divided between the opaque mesh and the chunk's transparent biome meshes
+interface SplitIndex {
+    opaque: THREE.BufferAttribute;
+    transparent: Map<BiomeProfile, THREE.BufferAttribute>;
+}
+
+// Optional finite extent: chunks are laid out from (minX, minZ); the last row and column are cut off at (maxX, maxZ)
+export interface ChunkBounds {
+    minX: number;
+    minZ: number;
+    maxX: number;
+    maxZ: number;
+}
+
+function chunkKey(cx: number, cz: number): string {
+    return `${cx},${cz}`;
+}
+
+function indexAttribute(indices: number[], vertexCount: number): THREE.BufferAttribute {
+    return new THREE.BufferAttribute(vertexCount > 65535 ? new Uint32Array(indices) : new Uint16Array(indices), 1);
+}
+
+export class TerrainChunkManager {
+    group: THREE.Group;
+
+    private generator: TerrainGenerator;
+    private params: Required<ChunkStreamingParams>;
+    private material: THREE.Material;
+    private transparentMaterials: Map<BiomeProfile, THREE.Material>;
+    private chunks: Map<string, TerrainChunk> = new Map();
+    private lod: GeomipmapLOD | null;
+    private bounds: ChunkBounds | null;
+    private originX: number;
+    private originZ: number;
+
+    constructor(generator: TerrainGenerator, params: ChunkStreamingParams, material: THREE.Material,
+                options: { lod?: GeomipmapLOD; bounds?: ChunkBounds; transparentMaterials?: Map<BiomeProfile, THREE.Material> } = {}) {
+        this.generator = generator;
+        this.params = {
+            maxChunksPerFrame: 2,
+            ...params
+        };
+        this.material = material;
+        this.transparentMaterials = options.transparentMaterials || new Map();
+        this.lod = options.lod || null;
+        this.bounds = options.bounds || null;
+        this.originX = this.bounds ? this.bounds.minX : 0;
+        this.originZ = this.bounds ? this.bounds.minZ : 0;
+
+        this.group = new THREE.Group();
+        this.group.name = 'chunked-terrain';
+
+        console.log(`🧩 Chunk streaming enabled: ${this.params.chunkSize} units/chunk, ${this.params.chunkSegments} segments, view distance ${this.params.viewDistance}`);
+    }
+
+    /**
+     * Load missing chunks around the given position (nearest first, within the
+     * per-frame budget) and unload the ones that fell out of range.
+     */
+    update(position: THREE.Vector3): void {
+        const { chunkSize, viewDistance, maxChunksPerFrame } = this.params;
+        const centerX = Math.floor((position.x - this.originX) / chunkSize);
+        const centerZ = Math.floor((position.z - this.originZ) / chunkSize);
+        const radius = Math.ceil(viewDistance / chunkSize);
+
+        // Clamp the candidate window to the world extent (bounded worlds may use an infinite view distance)
+        let minCX = centerX - radius, maxCX = centerX + radius;
+        let minCZ = centerZ - radius, maxCZ = centerZ + radius;
+        if (this.bounds) {
+            minCX = Math.max(minCX, 0);
+            minCZ = Math.max(minCZ, 0);
+            maxCX = Math.min(maxCX, this.lastChunkX());
+            maxCZ = Math.min(maxCZ, this.lastChunkZ());
+        }
+
+        // Unload with a one-chunk hysteresis so tiles don't flicker at the boundary
+        const unloadDistance = viewDistance + chunkSize;
+        for (const chunk of this.chunks.values()) {
+            if (this.distanceToChunk(position, chunk.cx, chunk.cz) > unloadDistance) {
+                this.unloadChunk(chunk);
+            }
+        }
+
+        const missing: { cx: number; cz: number; distance: number }[] = [];
+        for (let cz = minCZ; cz <= maxCZ; cz++) {
+            for (let cx = minCX; cx <= maxCX; cx++) {
+                if (this.chunks.has(chunkKey(cx, cz))) continue;
+                const distance = this.distanceToChunk(position, cx, cz);
+                if (distance <= viewDistance) {
+                    missing.push({ cx, cz, distance });
+                }
+            }
+        }
+
+        missing.sort((a, b) => a.distance - b.distance);
+        for (let i = 0; i < missing.length && i < maxChunksPerFrame; i++) {
+            this.loadChunk(missing[i].cx, missing[i].cz);
+        }
+    }
+
+    /**
+     * Pick a geomipmap level for every resident chunk from its camera distance,
+     * then give each one the index buffer stitched against its neighbours.
+     */
+    updateLevelOfDetail(position: THREE.Vector3): void {
+        const lod = this.lod;
+        if (!lod) return;
+
+        for (const chunk of this.chunks.values()) {
+            chunk.level = lod.selectLevel(this.distanceToChunk(position, chunk.cx, chunk.cz));
+        }
+
+        for (const chunk of this.chunks.values()) {
+            // Missing neighbours have no edge to match, so treat them as our own level
+            const neighbourLevel = (dx: number, dz: number) => {
+                const neighbour = this.chunks.get(chunkKey(chunk.cx + dx, chunk.cz + dz));
+                return neighbour ? neighbour.level : chunk.level;
+            };
+            const index = lod.getIndex(chunk.level, [
+                neighbourLevel(0, -1), // NORTH
+                neighbourLevel(1, 0),  // EAST
+                neighbourLevel(0, 1),  // SOUTH
+                neighbourLevel(-1, 0)  // WEST
+            ]);
+            this.setChunkIndex(chunk, index);
+        }
+    }
+
+    /**
+     * Height at a world position from the loaded chunk that contains it, or
+     * null when that chunk isn't resident yet.
+     */
+    getHeightAt(x: number, z: number): number | null {
+        const { chunkSize, chunkSegments } = this.params;
+        if (this.bounds) {
+            // Like the single grid, a bounded world answers with its edge height outside it
+            x = Math.min(Math.max(x, this.bounds.minX), this.bounds.maxX);
+            z = Math.min(Math.max(z, this.bounds.minZ), this.bounds.maxZ);
+        }
+        const cx = Math.min(Math.floor((x - this.originX) / chunkSize), this.lastChunkX());
+        const cz = Math.min(Math.floor((z - this.originZ) / chunkSize), this.lastChunkZ());
+        const chunk = this.chunks.get(chunkKey(cx, cz));
+        if (!chunk) return null;
+
+        // Local grid coordinates inside the chunk
+        const gridX = (x - this.originX - cx * chunkSize) / chunk.sizeX * chunkSegments;
+        const gridZ = (z - this.originZ - cz * chunkSize) / chunk.sizeZ * chunkSegments;
+
+        const x0 = Math.min(chunkSegments - 1, Math.floor(gridX));
+        const z0 = Math.min(chunkSegments - 1, Math.floor(gridZ));
+        const fx = gridX - x0;
+        const fz = gridZ - z0;
+
+        const row = chunkSegments + 1;
+        const h00 = chunk.heights[z0 * row + x0];
+        const h10 = chunk.heights[z0 * row + x0 + 1];
+        const h01 = chunk.heights[(z0 + 1) * row + x0];
+        const h11 = chunk.heights[(z0 + 1) * row + x0 + 1];
+
+        const h0 = h00 * (1 - fx) + h10 * fx;
+        const h1 = h01 * (1 - fx) + h11 * fx;
+
+        return h0 * (1 - fz) + h1 * fz;
+    }
+
+    get loadedChunkCount(): number {
+        return this.chunks.size;
+    }
+
+    dispose(): void {
+        // The resident chunks carry the LOD's shared index buffers into their own disposal
+        this.lod?.dispose([...this.chunks.values()].map(chunk => chunk.mesh.geometry));
+        for (const chunk of this.chunks.values()) {
+            this.unloadChunk(chunk);
+        }
+        this.material.dispose();
+        for (const material of this.transparentMaterials.values()) material.dispose();
+        this.group.removeFromParent();
+    }
+
+    private distanceToChunk(position: THREE.Vector3, cx: number, cz: number): number {
+        const { chunkSize } = this.params;
+        const centerX = this.originX + cx * chunkSize + this.chunkSizeX(cx) / 2;
+        const centerZ = this.originZ + cz * chunkSize + this.chunkSizeZ(cz) / 2;
+        return Math.hypot(position.x - centerX, position.z - centerZ);
+    }
+
+    // Last chunk column and row of a bounded world (unbounded worlds have none)
+    private lastChunkX(): number {
+        return this.bounds ? Math.ceil((this.bounds.maxX - this.bounds.minX) / this.params.chunkSize) - 1 : Infinity;
+    }
+
+    private lastChunkZ(): number {
+        return this.bounds ? Math.ceil((this.bounds.maxZ - this.bounds.minZ) / this.params.chunkSize) - 1 : Infinity;
+    }
+
+    // World extent of a chunk column / row: the full chunk size, or what is left of a bounded world
+    private chunkSizeX(cx: number): number {
+        const { chunkSize } = this.params;
+        return this.bounds ? Math.min(chunkSize, this.bounds.maxX - this.originX - cx * chunkSize) : chunkSize;
+    }
+
+    private chunkSizeZ(cz: number): number {
+        const { chunkSize } = this.params;
+        return this.bounds ? Math.min(chunkSize, this.bounds.maxZ - this.originZ - cz * chunkSize) : chunkSize;
+    }
+
+    private loadChunk(cx: number, cz: number): void {
+        const { chunkSize, chunkSegments } = this.params;
+        // Cut-off edge chunks keep their segment count, so their vertices sit closer together
+        const sizeX = this.chunkSizeX(cx);
+        const sizeZ = this.chunkSizeZ(cz);
+        const stepX = sizeX / chunkSegments;
+        const stepZ = sizeZ / chunkSegments;
+        const originX = this.originX + cx * chunkSize;
+        const originZ = this.originZ + cz * chunkSize;
+
+        // Sample heights with a one-vertex apron on every side for seamless normals
+        const sampler = this.generator.sampler;
+        const apronRow = chunkSegments + 3;
+        const apron = new Float32Array(apronRow * apronRow);
+        const apronXs = new Float64Array(apronRow);
+        for (let x = 0; x < apronRow; x++) apronXs[x] = originX + (x - 1) * stepX;
+        for (let z = 0; z < apronRow; z++) {
+            sampler.sampleHeightRow(apronXs, originZ + (z - 1) * stepZ, apron, z * apronRow);
+        }
+
+        const row = chunkSegments + 1;
+        const vertexCount = row * row;
+        const heights = new Float32Array(vertexCount);
+        const positions = new Float32Array(vertexCount * 3);
+        const normals = new Float32Array(vertexCount * 3);
+        const uvs = new Float32Array(vertexCount * 2);
+        const colors = new Float32Array(vertexCount * 3);
+        const splat = sampler.textureLayers.length > 0 ? new Float32Array(vertexCount * MAX_TEXTURE_LAYERS) : null;
+        const materials = sampler.materialSlots.length > 1 ? new Float32Array(vertexCount * MATERIAL_VALUES_PER_VERTEX) : null;
+        const blend = sampler.createBiomeBlend();
+        const color = { r: 0, g: 0, b: 0 };
+        const quadBiomes = this.transparentMaterials.size > 0 ? new Uint8Array(chunkSegments * chunkSegments) : null;
+        const transparentBiomes = new Set<BiomeProfile>();
+
+        for (let z = 0; z <= chunkSegments; z++) {
+            for (let x = 0; x <= chunkSegments; x++) {
+                const i = z * row + x;
+                const worldX = originX + x * stepX;
+                const worldZ = originZ + z * stepZ;
+                const height = apron[(z + 1) * apronRow + (x + 1)];
+                heights[i] = height;
+
+                positions[i * 3] = worldX;
+                positions[i * 3 + 1] = height;
+                positions[i * 3 + 2] = worldZ;
+
+                // Central differences reach into the apron at the chunk border
+                const left = apron[(z + 1) * apronRow + x];
+                const right = apron[(z + 1) * apronRow + (x + 2)];
+                const up = apron[z * apronRow + (x + 1)];
+                const down = apron[(z + 2) * apronRow + (x + 1)];
+                const nx = (left - right) / (2 * stepX);
+                const nz = (up - down) / (2 * stepZ);
+                const length = Math.sqrt(nx * nx + 1 + nz * nz);
+                normals[i * 3] = nx / length;
+                normals[i * 3 + 1] = 1 / length;
+                normals[i * 3 + 2] = nz / length;
+
+                uvs[i * 2] = x / chunkSegments;
+                uvs[i * 2 + 1] = z / chunkSegments;
+
+                sampler.sampleBiomeBlend(worldX, worldZ, blend);
+                sampler.sampleColor(worldX, worldZ, height, 1 / length, blend, color);
+                colors[i * 3] = color.r;
+                colors[i * 3 + 1] = color.g;
+                colors[i * 3 + 2] = color.b;
+
+                if (splat) sampler.sampleTextureWeights(worldX, worldZ, height, 1 / length, splat, i * MAX_TEXTURE_LAYERS, blend);
+                if (materials) sampler.sampleMaterialWeights(worldX, worldZ, materials, i * MATERIAL_VALUES_PER_VERTEX, blend);
+
+                // Quad ownership is decided by the biome at the quad centre, as in the single grid
+                if (quadBiomes && x < chunkSegments && z < chunkSegments) {
+                    const biomeIndex = sampler.samplePrimaryBiomeIndex(worldX + stepX / 2, worldZ + stepZ / 2);
+                    quadBiomes[z * chunkSegments + x] = biomeIndex;
+                    const biome = this.generator.biomes[biomeIndex];
+                    if (this.transparentMaterials.has(biome)) transparentBiomes.add(biome);
+                }
+            }
+        }
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+        geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+        geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+        if (splat) setSplatWeights(geometry, splat);
+        if (materials) setMaterialWeights(geometry, materials);
+        geometry.computeBoundingSphere();
+
+        const mesh = new THREE.Mesh(geometry, this.material);
+        mesh.name = `terrain-chunk-${cx}-${cz}`;
+        mesh.receiveShadow = true;
+        mesh.castShadow = true;
+
+        const transparentMeshes = new Map<BiomeProfile, THREE.Mesh>();
+        for (const biome of transparentBiomes) {
+            const biomeGeometry = new THREE.BufferGeometry();
+            for (const [name, attribute] of Object.entries(geometry.attributes)) {
+                biomeGeometry.setAttribute(name, attribute);
+            }
+            biomeGeometry.boundingSphere = geometry.boundingSphere;
+
+            const biomeMesh = new THREE.Mesh(biomeGeometry, this.transparentMaterials.get(biome));
+            biomeMesh.name = `terrain-chunk-${cx}-${cz}-${biome.name}`;
+            biomeMesh.receiveShadow = true;
+            biomeMesh.castShadow = false; // Transparent surfaces shouldn't cast hard shadows
+            biomeMesh.renderOrder = biome.material?.isWater ? 1 : 2; // Crystals sort after water
+            registerWaterMesh(biomeMesh);
+            transparentMeshes.set(biome, biomeMesh);
+        }
+
+        const key = chunkKey(cx, cz);
+        const chunk: TerrainChunk = {
+            key, cx, cz, mesh, sizeX, sizeZ, heights, level: 0,
+            quadBiomes: transparentMeshes.size > 0 ? quadBiomes : null,
+            transparentMeshes,
+            splits: new Map()
+        };
+        // Start at full detail; with LOD, updateLevelOfDetail() re-stitches on the next frame
+        this.setChunkIndex(chunk, this.lod ? this.lod.getIndex(0, [0, 0, 0, 0]) : this.createGridIndex());
+
+        this.chunks.set(key, chunk);
+        this.group.add(mesh);
+        for (const biomeMesh of transparentMeshes.values()) this.group.add(biomeMesh);
+    }
+
+    private unloadChunk(chunk: TerrainChunk): void {
+        this.group.remove(chunk.mesh);
+        for (const biomeMesh of chunk.transparentMeshes.values()) {
+            this.group.remove(biomeMesh);
+            biomeMesh.geometry.dispose();
+        }
+        if (this.lod && chunk.transparentMeshes.size === 0) {
+            // Index buffers are shared between chunks - detach so dispose() doesn't free them
+            chunk.mesh.geometry.setIndex(null);
+        }
+        // Split indices the chunk used before are its own; free them along with its geometry
+        let slot = 0;
+        for (const split of chunk.splits.values()) {
+            chunk.mesh.geometry.setAttribute(`splitIndex${slot++}`, split.opaque);
+            for (const index of split.transparent.values()) chunk.mesh.geometry.setAttribute(`splitIndex${slot++}`, index);
+        }
+        chunk.mesh.geometry.dispose();
+        this.chunks.delete(chunk.key);
+    }
+
+    // Draw the chunk with `index`, split between its opaque and transparent meshes if it has any
+    private setChunkIndex(chunk: TerrainChunk, index: THREE.BufferAttribute): void {
+        if (chunk.transparentMeshes.size === 0) {
+            if (chunk.mesh.geometry.index !== index) chunk.mesh.geometry.setIndex(index);
+            return;
+        }
+
+        let split = chunk.splits.get(index);
+        if (!split) {
+            split = this.splitIndex(chunk, index);
+            chunk.splits.set(index, split);
+        }
+        if (chunk.mesh.geometry.index === split.opaque) return;
+        chunk.mesh.geometry.setIndex(split.opaque);
+        for (const [biome, biomeMesh] of chunk.transparentMeshes) {
+            biomeMesh.geometry.setIndex(split.transparent.get(biome)!);
+        }
+    }
+
+    private splitIndex(chunk: TerrainChunk, index: THREE.BufferAttribute): SplitIndex {
+        const { chunkSegments } = this.params;
+        const row = chunkSegments + 1;
+        const opaque: number[] = [];
+        const transparent = new Map<BiomeProfile, number[]>();
+        for (const biome of chunk.transparentMeshes.keys()) transparent.set(biome, []);
+
+        // Each triangle goes with the quad under its centroid (at full detail, the quad it is half of)
+        const source = index.array;
+        for (let i = 0; i < source.length; i += 3) {
+            const a = source[i], b = source[i + 1], c = source[i + 2];
+            const quadX = Math.min(chunkSegments - 1, Math.floor((a % row + b % row + c % row) / 3));
+            const quadZ = Math.min(chunkSegments - 1, Math.floor((Math.floor(a / row) + Math.floor(b / row) + Math.floor(c / row)) / 3));
+            const biome = this.generator.biomes[chunk.quadBiomes![quadZ * chunkSegments + quadX]];
+            (transparent.get(biome) ?? opaque).push(a, b, c);
+        }
+
+        return {
+            opaque: indexAttribute(opaque, row * row),
+            transparent: new Map([...transparent].map(([biome, indices]) => [biome, indexAttribute(indices, row * row)]))
+        };
+    }
+
+    // Full-resolution triangulation of one chunk
+    private createGridIndex(): THREE.BufferAttribute {
+        const { chunkSegments } = this.params;
+        const row = chunkSegments + 1;
+        const indices: number[] = [];
+        for (let z = 0; z < chunkSegments; z++) {
+            for (let x = 0; x < chunkSegments; x++) {
+                const a = x + row * z;
+                const b = x + row * (z + 1);
+                const c = (x + 1) + row * (z + 1);
+                const d = (x + 1) + row * z;
+                indices.push(a, b, d);
+                indices.push(b, c, d);
+            }
+        }
+        return indexAttribute(indices, row * row);
+    }
+}
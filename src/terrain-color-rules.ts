@@ -0,0 +1,48 @@
+/**
+ * Terrain Colour Rules
+ *
+ * Rule layers over a biome's height colour ramp: "rock above 35 degrees of
+ * slope", "snow above 600 with a ragged edge", "sand within 5 units of the
+ * water". Each rule covers a sample by 0-1; the vertex colour blends towards the
+ * rule's colour by that much and the texture weights hand the same share to the
+ * rule's texture. Nothing in here touches THREE, so it runs in the workers.
+ */
+
+import type { ColorRule } from './types';
+import { rangeWeight } from './terrain-splat';
+
+export const DEFAULT_SLOPE_BLEND = 5;      // Degrees either side of a slope edge
+export const DEFAULT_DISTANCE_BLEND = 10;  // World units either side of an altitude or shoreline edge
+
+// What the rules can look at for one vertex
+export interface RuleSample {
+    height: number;
+    slope: number;        // Degrees
+    waterLevel: number;
+    edgeNoise: number;    // Smooth world-space noise in about -1..1 (0 when no rule dithers)
+}
+
+// How much of a sample the rule paints over, 0-1
+export function colorRuleCoverage(rule: ColorRule, sample: RuleSample): number {
+    const dither = (rule.dither ?? 0) * sample.edgeNoise;
+    let coverage = Math.min(Math.max(rule.strength ?? 1, 0), 1);
+
+    if (rule.slope) {
+        coverage *= rangeWeight(sample.slope + dither, rule.slope, 0, 90, rule.blend ?? DEFAULT_SLOPE_BLEND);
+    }
+    if (rule.altitude) {
+        coverage *= rangeWeight(sample.height + dither, rule.altitude, -Infinity, Infinity, rule.blend ?? DEFAULT_DISTANCE_BLEND);
+    }
+    if (rule.nearWater !== undefined) {
+        // Full coverage at the waterline, fading out around nearWater units away
+        const blend = rule.blend ?? DEFAULT_DISTANCE_BLEND;
+        const distance = Math.abs(sample.height - sample.waterLevel) + dither;
+        coverage *= rangeWeight(distance, [-Infinity, rule.nearWater], -Infinity, Infinity, Math.min(blend, Math.max(rule.nearWater, 1e-3)));
+    }
+    return coverage;
+}
+
+// True when any of the rules needs the edge noise
+export function rulesNeedEdgeNoise(rules: ColorRule[]): boolean {
+    return rules.some(rule => (rule.dither ?? 0) !== 0);
+}
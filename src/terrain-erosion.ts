@@ -0,0 +1,200 @@
+/**
+ * Terrain Erosion
+ *
+ * Post-processes a generated heightmap so it reads as real landforms rather
+ * than raw noise:
+ * - Hydraulic erosion: simulated raindrops run downhill, picking up sediment
+ *   on steep fast sections and dropping it where they slow down, carving
+ *   gullies and filling valley floors.
+ * - Thermal erosion: material on slopes steeper than the talus angle slides
+ *   down to its lowest neighbour, softening knife-edge ridges into scree.
+ *
+ * Pure and THREE-free so it runs inside generation workers. All randomness
+ * comes from the world seed, so the same parameters erode identically.
+ */
+
+import { mulberry32, deriveSeed } from './random';
+import type { ErosionParams } from './types';
+import type { TerrainGrid } from './terrain-sampler';
+
+// Droplet physics constants (per step, in grid cell units)
+const INERTIA = 0.05;            // How much a droplet keeps its previous direction
+const GRAVITY = 4;
+const MIN_SLOPE = 0.01;          // Keeps flat-ground droplets carrying a little sediment
+const MAX_DROPLET_STEPS = 64;
+const EROSION_RADIUS = 2;        // Cells eroded around a droplet (avoids single-cell pits)
+
+interface ErosionBrush {
+    offsets: Int32Array;         // Flat index offsets of the cells in the brush
+    dx: Int8Array;
+    dz: Int8Array;
+    weights: Float32Array;       // Normalised to sum to 1
+}
+
+function createBrush(radius: number, row: number): ErosionBrush {
+    const offsets: number[] = [];
+    const dx: number[] = [];
+    const dz: number[] = [];
+    const weights: number[] = [];
+    let total = 0;
+    for (let z = -radius; z <= radius; z++) {
+        for (let x = -radius; x <= radius; x++) {
+            const distance = Math.sqrt(x * x + z * z);
+            if (distance > radius) continue;
+            const weight = 1 - distance / radius;
+            offsets.push(z * row + x);
+            dx.push(x);
+            dz.push(z);
+            weights.push(weight);
+            total += weight;
+        }
+    }
+    return {
+        offsets: Int32Array.from(offsets),
+        dx: Int8Array.from(dx),
+        dz: Int8Array.from(dz),
+        weights: Float32Array.from(weights, weight => weight / total)
+    };
+}
+
+/**
+ * Erode `heights` ((segments + 1)^2, row-major by z) in place.
+ * `worldSeed` is the terrain's top-level seed.
+ */
+export function erodeHeightmap(heights: Float32Array, grid: TerrainGrid, params: ErosionParams, worldSeed: number,
+                               onProgress?: (fraction: number) => void): void {
+    const row = grid.segments + 1;
+
+    // Simulate in cell units so slopes don't depend on the world size of a cell
+    const cellSize = Math.max(grid.width, grid.depth) / grid.segments;
+    for (let i = 0; i < heights.length; i++) heights[i] /= cellSize;
+
+    const iterations = Math.max(0, Math.floor(params.iterations));
+    const thermalIterations = Math.max(0, Math.floor(params.thermalIterations ?? 0));
+    const totalWork = iterations + thermalIterations * 1000; // One thermal pass costs about a thousand droplets
+    const report = (done: number) => onProgress?.(totalWork > 0 ? done / totalWork : 1);
+
+    simulateHydraulicErosion(heights, row, params, iterations, deriveSeed(worldSeed, 'erosion'), report);
+    simulateThermalErosion(heights, row, params, thermalIterations, pass => report(iterations + pass * 1000));
+
+    for (let i = 0; i < heights.length; i++) heights[i] *= cellSize;
+    report(totalWork);
+}
+
+function simulateHydraulicErosion(heights: Float32Array, row: number, params: ErosionParams, droplets: number, seed: number,
+                                  onDroplets: (done: number) => void): void {
+    const random = mulberry32(seed);
+    const brush = createBrush(EROSION_RADIUS, row);
+    const max = row - 1;
+
+    const capacityFactor = params.sedimentCapacity;
+    const erodeSpeed = params.erosionRate ?? 0.3;
+    const depositSpeed = params.depositionRate ?? 0.3;
+    const evaporateSpeed = params.evaporationRate ?? 0.01;
+    const reportEvery = Math.max(1, Math.floor(droplets / 50));
+
+    // Height and gradient at a fractional position, bilinear over the containing cell
+    const sample = (x: number, z: number) => {
+        const cx = Math.floor(x), cz = Math.floor(z);
+        const u = x - cx, v = z - cz;
+        const i = cz * row + cx;
+        const h00 = heights[i], h10 = heights[i + 1], h01 = heights[i + row], h11 = heights[i + row + 1];
+        return {
+            height: h00 * (1 - u) * (1 - v) + h10 * u * (1 - v) + h01 * (1 - u) * v + h11 * u * v,
+            gradientX: (h10 - h00) * (1 - v) + (h11 - h01) * v,
+            gradientZ: (h01 - h00) * (1 - u) + (h11 - h10) * u
+        };
+    };
+
+    for (let droplet = 0; droplet < droplets; droplet++) {
+        let x = random() * (max - 1);
+        let z = random() * (max - 1);
+        let dirX = 0, dirZ = 0;
+        let speed = 1;
+        let water = params.rainAmount;
+        let sediment = 0;
+
+        for (let step = 0; step < MAX_DROPLET_STEPS; step++) {
+            const cellX = Math.floor(x), cellZ = Math.floor(z);
+            const u = x - cellX, v = z - cellZ;
+            const cell = cellZ * row + cellX;
+            const here = sample(x, z);
+
+            // Roll downhill, keeping some momentum
+            dirX = dirX * INERTIA - here.gradientX * (1 - INERTIA);
+            dirZ = dirZ * INERTIA - here.gradientZ * (1 - INERTIA);
+            const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
+            if (length === 0) break;
+            dirX /= length;
+            dirZ /= length;
+            x += dirX;
+            z += dirZ;
+
+            // Stop at the map edge (the border row has no cell beyond it to interpolate with)
+            if (x < 0 || z < 0 || x >= max || z >= max) break;
+
+            const deltaHeight = sample(x, z).height - here.height;
+            const capacity = Math.max(-deltaHeight * speed * water * capacityFactor, MIN_SLOPE);
+
+            if (sediment > capacity || deltaHeight > 0) {
+                // Uphill: fill the pit behind us (but not above the new position); otherwise drop the excess
+                const amount = deltaHeight > 0 ? Math.min(deltaHeight, sediment) : (sediment - capacity) * depositSpeed;
+                sediment -= amount;
+                heights[cell] += amount * (1 - u) * (1 - v);
+                heights[cell + 1] += amount * u * (1 - v);
+                heights[cell + row] += amount * (1 - u) * v;
+                heights[cell + row + 1] += amount * u * v;
+            } else {
+                // Take sediment from the brush area, never digging deeper than the drop we just made
+                const amount = Math.min((capacity - sediment) * erodeSpeed, -deltaHeight);
+                for (let b = 0; b < brush.offsets.length; b++) {
+                    const bx = cellX + brush.dx[b], bz = cellZ + brush.dz[b];
+                    if (bx < 0 || bz < 0 || bx > max || bz > max) continue;
+                    const index = cell + brush.offsets[b];
+                    const removed = amount * brush.weights[b];
+                    heights[index] -= removed;
+                    sediment += removed;
+                }
+            }
+
+            // Gains speed going downhill, loses it climbing
+            speed = Math.sqrt(Math.max(speed * speed - deltaHeight * GRAVITY, 0));
+            water *= 1 - evaporateSpeed;
+        }
+
+        if ((droplet + 1) % reportEvery === 0) onDroplets(droplet + 1);
+    }
+}
+
+function simulateThermalErosion(heights: Float32Array, row: number, params: ErosionParams, passes: number,
+                                onPass: (pass: number) => void): void {
+    // Maximum stable height difference between neighbouring cells (cell units)
+    const talus = Math.tan((params.talusAngle ?? 35) * Math.PI / 180);
+    const neighbours = [-1, 1, -row, row];
+    const max = row - 1;
+
+    for (let pass = 0; pass < passes; pass++) {
+        for (let z = 1; z < max; z++) {
+            for (let x = 1; x < max; x++) {
+                const i = z * row + x;
+
+                // Slide half the excess towards the steepest downhill neighbour
+                let lowest = -1;
+                let steepest = talus;
+                for (const offset of neighbours) {
+                    const drop = heights[i] - heights[i + offset];
+                    if (drop > steepest) {
+                        steepest = drop;
+                        lowest = i + offset;
+                    }
+                }
+                if (lowest < 0) continue;
+
+                const moved = (steepest - talus) * 0.5;
+                heights[i] -= moved;
+                heights[lowest] += moved;
+            }
+        }
+        onPass(pass + 1);
+    }
+}
@@ -0,0 +1,184 @@
+/**
+ * Terrain Height Graph
+ *
+ * Evaluates a HeightGraph (FullTerrainParameters.heightGraph): a JSON list of
+ * nodes - noise sources, arithmetic, curves, terraces and biome masks - wired
+ * together by id, whose output node gives the world height. The graph is
+ * checked and put in evaluation order once; every sample then runs only the
+ * nodes the output depends on, each exactly once. Nothing in here touches
+ * THREE, so graphs are evaluated in the generation workers.
+ */
+
+import { createNoise } from './noise';
+import { deriveSeed } from './random';
+import { DEFAULT_TERRACE_SHARPNESS, evaluateCurve, terrace } from './terrain-shaping';
+import type { HeightGraph, HeightNode, HeightNodeType } from './types';
+
+// What a graph can read from the rest of the terrain
+export interface HeightGraphSource {
+    sampleBiomeHeight(worldX: number, worldZ: number): number;
+    sampleLayerHeight(worldX: number, worldZ: number): number;
+    sampleBiomeWeight(worldX: number, worldZ: number, biomeName: string): number;
+}
+
+export interface CompiledHeightGraph {
+    evaluate(worldX: number, worldZ: number): number;
+}
+
+// Input ports of each node kind ('many' takes any number); the editor draws its ports from this
+export const HEIGHT_NODE_INPUTS: Record<HeightNodeType, string[] | 'many'> = {
+    noise: [],
+    constant: [],
+    biomes: [],
+    layers: [],
+    biomeMask: [],
+    add: 'many',
+    multiply: 'many',
+    max: 'many',
+    min: 'many',
+    blend: ['a', 'b', 'mask'],
+    curve: ['in'],
+    remap: ['in'],
+    terrace: ['in'],
+    clamp: ['in']
+};
+
+// What a world without a graph uses: biome elevation plus the world-wide layers
+export const DEFAULT_HEIGHT_GRAPH: HeightGraph = {
+    nodes: [
+        { id: 'biomes', type: 'biomes', position: [40, 40] },
+        { id: 'layers', type: 'layers', position: [40, 160] },
+        { id: 'height', type: 'add', inputs: ['biomes', 'layers'], position: [280, 100] }
+    ],
+    output: 'height'
+};
+
+type NodeEvaluator = (worldX: number, worldZ: number, values: Float64Array) => number;
+
+/**
+ * Check a graph and prepare it for sampling. Throws an Error naming the node
+ * at fault for duplicate ids, unknown kinds, missing inputs, wrong input
+ * counts and cycles; nodes the output doesn't depend on are ignored.
+ */
+export function compileHeightGraph(graph: HeightGraph, worldSeed: number, source: HeightGraphSource): CompiledHeightGraph {
+    const nodesById = new Map<string, HeightNode>();
+    for (const node of graph.nodes) {
+        if (nodesById.has(node.id)) throw new Error(`Height graph: two nodes are called "${node.id}"`);
+        if (!(node.type in HEIGHT_NODE_INPUTS)) throw new Error(`Height graph: "${node.id}" has unknown type "${node.type}"`);
+        nodesById.set(node.id, node);
+    }
+
+    // Depth first from the output, so every node comes after its inputs
+    const order: HeightNode[] = [];
+    const slotOf = new Map<string, number>();
+    const visiting = new Set<string>();
+    const visit = (id: string, reader: string) => {
+        if (slotOf.has(id)) return;
+        const node = nodesById.get(id);
+        if (!node) throw new Error(`Height graph: ${reader} reads "${id}", which doesn't exist`);
+        if (visiting.has(id)) throw new Error(`Height graph: "${id}" feeds into itself`);
+
+        const ports = HEIGHT_NODE_INPUTS[node.type];
+        const inputs = node.inputs ?? [];
+        if (ports === 'many' ? inputs.length === 0 : inputs.length !== ports.length) {
+            const expected = ports === 'many' ? 'at least 1 input' : `${ports.length} input${ports.length === 1 ? '' : 's'}`;
+            throw new Error(`Height graph: "${id}" (${node.type}) needs ${expected}, has ${inputs.length}`);
+        }
+
+        visiting.add(id);
+        for (const input of inputs) visit(input, `"${id}"`);
+        visiting.delete(id);
+        slotOf.set(id, order.length);
+        order.push(node);
+    };
+    visit(graph.output, 'the output');
+
+    const evaluators = order.map(node => compileNode(node, (node.inputs ?? []).map(id => slotOf.get(id)!), worldSeed, source));
+    const values = new Float64Array(order.length);
+    return {
+        evaluate(worldX: number, worldZ: number): number {
+            for (let i = 0; i < evaluators.length; i++) values[i] = evaluators[i](worldX, worldZ, values);
+            return values[values.length - 1];
+        }
+    };
+}
+
+function compileNode(node: HeightNode, inputs: number[], worldSeed: number, source: HeightGraphSource): NodeEvaluator {
+    switch (node.type) {
+        case 'noise': {
+            const params = node.noise;
+            if (!params) throw new Error(`Height graph: noise node "${node.id}" has no noise settings`);
+            // Seeded per node id, so renaming a node reshuffles it and two nodes never share a field
+            const noise = createNoise(deriveSeed(worldSeed, `heightGraph:${node.id}`, params.seed), params);
+            const baseHeight = params.baseHeight ?? 0;
+            const amplitude = params.amplitude ?? 1;
+            return (x, z) => baseHeight + noise.fractal(x, z, params) * amplitude;
+        }
+        case 'constant': {
+            const value = node.value ?? 0;
+            return () => value;
+        }
+        case 'biomes':
+            return (x, z) => source.sampleBiomeHeight(x, z);
+        case 'layers':
+            return (x, z) => source.sampleLayerHeight(x, z);
+        case 'biomeMask': {
+            const biome = node.biome ?? '';
+            return (x, z) => source.sampleBiomeWeight(x, z, biome);
+        }
+        case 'add':
+            return (_x, _z, values) => {
+                let sum = 0;
+                for (const slot of inputs) sum += values[slot];
+                return sum;
+            };
+        case 'multiply':
+            return (_x, _z, values) => {
+                let product = 1;
+                for (const slot of inputs) product *= values[slot];
+                return product;
+            };
+        case 'max':
+            return (_x, _z, values) => {
+                let result = -Infinity;
+                for (const slot of inputs) result = Math.max(result, values[slot]);
+                return result;
+            };
+        case 'min':
+            return (_x, _z, values) => {
+                let result = Infinity;
+                for (const slot of inputs) result = Math.min(result, values[slot]);
+                return result;
+            };
+        case 'blend': {
+            const [a, b, mask] = inputs;
+            return (_x, _z, values) => values[a] + (values[b] - values[a]) * Math.min(Math.max(values[mask], 0), 1);
+        }
+        case 'curve': {
+            const points = [...(node.points ?? [])].sort((p, q) => p[0] - q[0]);
+            if (points.length === 0) throw new Error(`Height graph: curve "${node.id}" has no points`);
+            const [input] = inputs;
+            return (_x, _z, values) => evaluateCurve(points, values[input]);
+        }
+        case 'remap': {
+            const [fromMin, fromMax] = node.from ?? [0, 1];
+            const [toMin, toMax] = node.to ?? [0, 1];
+            if (fromMin === fromMax) throw new Error(`Height graph: remap "${node.id}" has an empty input range`);
+            const scale = (toMax - toMin) / (fromMax - fromMin);
+            const [input] = inputs;
+            return (_x, _z, values) => toMin + (values[input] - fromMin) * scale;
+        }
+        case 'terrace': {
+            const step = node.step ?? 10;
+            const sharpness = node.sharpness ?? DEFAULT_TERRACE_SHARPNESS;
+            const [input] = inputs;
+            return (_x, _z, values) => terrace(values[input], step, sharpness);
+        }
+        case 'clamp': {
+            const min = node.min ?? -Infinity;
+            const max = node.max ?? Infinity;
+            const [input] = inputs;
+            return (_x, _z, values) => Math.min(Math.max(values[input], min), max);
+        }
+    }
+}
@@ -0,0 +1,155 @@
+/**
+ * Geomipmapped Level of Detail for Terrain Patches
+ *
+ * Every terrain patch keeps its full-resolution vertex buffer; detail is reduced
+ * by swapping the index buffer for one that only uses every 2^level-th vertex.
+ * Index buffers depend only on (level, neighbour levels) so they are built once
+ * and shared by all patches.
+ *
+ * Crack-free seams: when a neighbour is coarser, the border strip on that side
+ * is re-triangulated against the neighbour's vertex step ("zipper" between the
+ * outer edge and the first inner row), so both patches agree on the shared edge.
+ */
+
+import * as THREE from 'three';
+import type { TerrainLODParams } from './types';
+
+// Patch sides, in the order neighbour levels are passed around
+export const PatchSide = {
+    NORTH: 0, // -z
+    EAST: 1,  // +x
+    SOUTH: 2, // +z
+    WEST: 3   // -x
+} as const;
+
+type GridPoint = { x: number; z: number };
+
+export class GeomipmapLOD {
+    readonly levels: number;
+    readonly levelDistance: number;
+
+    private segments: number;
+    private indexCache: Map<string, THREE.BufferAttribute> = new Map();
+
+    constructor(params: TerrainLODParams, segments: number) {
+        this.segments = segments;
+        this.levelDistance = Math.max(params.levelDistance, 1);
+
+        // A level is usable while its step divides the patch and leaves at least one inner row
+        let levels = 1;
+        while (levels < params.levels && segments % (1 << levels) === 0 && (1 << levels) <= segments / 2) {
+            levels++;
+        }
+        this.levels = levels;
+
+        if (levels < params.levels) {
+            console.warn(`⚠️ LOD clamped to ${levels} levels for ${segments}-segment patches`);
+        }
+        console.log(`🔭 Geomipmap LOD: ${this.levels} levels, ${this.levelDistance} units per level`);
+    }
+
+    /**
+     * Detail level for a patch at the given distance from the camera
+     */
+    selectLevel(distance: number): number {
+        return Math.min(this.levels - 1, Math.max(0, Math.floor(distance / this.levelDistance)));
+    }
+
+    /**
+     * Shared index buffer for a patch at `level` whose neighbours (N, E, S, W)
+     * are at `neighbourLevels`. Finer neighbours are ignored - they stitch to us.
+     */
+    getIndex(level: number, neighbourLevels: number[]): THREE.BufferAttribute {
+        const edgeLevels = neighbourLevels.map(n => Math.max(level, n));
+        const key = `${level}:${edgeLevels.join(',')}`;
+
+        let index = this.indexCache.get(key);
+        if (!index) {
+            index = this.buildIndex(level, edgeLevels);
+            this.indexCache.set(key, index);
+        }
+        return index;
+    }
+
+    /**
+     * Drop the shared index buffers. three.js only frees a buffer's GPU copy
+     * when a geometry it has drawn is disposed with the buffer attached, so the
+     * buffers ride along as extra attributes on `carriers` - patch geometries
+     * that are about to be disposed.
+     */
+    dispose(carriers: THREE.BufferGeometry[] = []): void {
+        for (const geometry of carriers) {
+            let slot = 0;
+            for (const index of this.indexCache.values()) geometry.setAttribute(`lodIndex${slot++}`, index);
+        }
+        this.indexCache.clear();
+    }
+
+    private buildIndex(level: number, edgeLevels: number[]): THREE.BufferAttribute {
+        const n = this.segments;
+        const row = n + 1;
+        const step = 1 << level;
+        const indices: number[] = [];
+
+        const vertex = (p: GridPoint) => p.x + row * p.z;
+
+        // Emit a triangle wound so its face normal points up (+y), matching the full-resolution grid
+        const pushTriangle = (p: GridPoint, q: GridPoint, r: GridPoint) => {
+            const cross = (q.z - p.z) * (r.x - p.x) - (q.x - p.x) * (r.z - p.z);
+            if (cross === 0) return; // Degenerate
+            if (cross > 0) {
+                indices.push(vertex(p), vertex(q), vertex(r));
+            } else {
+                indices.push(vertex(p), vertex(r), vertex(q));
+            }
+        };
+
+        // Interior quads at this level's step
+        for (let z = step; z < n - step; z += step) {
+            for (let x = step; x < n - step; x += step) {
+                const a = { x, z };
+                const b = { x, z: z + step };
+                const c = { x: x + step, z: z + step };
+                const d = { x: x + step, z };
+                pushTriangle(a, b, d);
+                pushTriangle(b, c, d);
+            }
+        }
+
+        // Border strips, one per side: outer edge at the (possibly coarser) edge step, inner row at our step
+        const sides: { outer: (t: number) => GridPoint; inner: (t: number) => GridPoint }[] = [
+            { outer: t => ({ x: t, z: 0 }), inner: t => ({ x: t, z: step }) },         // NORTH
+            { outer: t => ({ x: n, z: t }), inner: t => ({ x: n - step, z: t }) },     // EAST
+            { outer: t => ({ x: t, z: n }), inner: t => ({ x: t, z: n - step }) },     // SOUTH
+            { outer: t => ({ x: 0, z: t }), inner: t => ({ x: step, z: t }) }          // WEST
+        ];
+
+        sides.forEach((side, sideIndex) => {
+            const edgeStep = 1 << edgeLevels[sideIndex];
+
+            const outer: { t: number; p: GridPoint }[] = [];
+            for (let t = 0; t <= n; t += edgeStep) outer.push({ t, p: side.outer(t) });
+
+            const inner: { t: number; p: GridPoint }[] = [];
+            for (let t = step; t <= n - step; t += step) inner.push({ t, p: side.inner(t) });
+
+            // Zip the two polylines together, always advancing the one whose next vertex comes first
+            let i = 0;
+            let j = 0;
+            while (i < outer.length - 1 || j < inner.length - 1) {
+                const advanceOuter = j === inner.length - 1 ||
+                    (i < outer.length - 1 && outer[i + 1].t <= inner[j + 1].t);
+                if (advanceOuter) {
+                    pushTriangle(outer[i].p, outer[i + 1].p, inner[j].p);
+                    i++;
+                } else {
+                    pushTriangle(outer[i].p, inner[j + 1].p, inner[j].p);
+                    j++;
+                }
+            }
+        });
+
+        const array = row * row > 65535 ? new Uint32Array(indices) : new Uint16Array(indices);
+        return new THREE.BufferAttribute(array, 1);
+    }
+}
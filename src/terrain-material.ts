@@ -0,0 +1,245 @@
+/**
+ * Terrain Material
+ *
+ * One shader for all opaque terrain: three's physical shader with the surface
+ * worked out per vertex instead of per material.
+ * - Biome surfaces: each vertex carries its strongest material slots and their
+ *   weights (materialSlots/materialWeights, from terrain-biome-materials) and
+ *   blends those slots' emission, metalness, roughness and iridescence, so a
+ *   lava biome glows and a metal biome shines only where they are
+ * - Texture splatting: the weighted texture layers (splatWeights0/1, from
+ *   terrain-splat) replace the vertex colour, normal and roughness where they
+ *   cover the ground. Layers are projected from above on gentle ground and
+ *   triplanar where it gets steep, so cliffs don't show stretched texture
+ * - Built as a ShaderMaterial from three's own chunks, so shadows and fog
+ *   patch it like any other lit material
+ */
+
+import * as THREE from 'three';
+import { MAX_TEXTURE_LAYERS } from './terrain-splat';
+import { MAX_MATERIAL_SLOTS, MATERIAL_SLOTS_PER_VERTEX } from './terrain-biome-materials';
+import type { SurfaceProperties } from './terrain-biome-materials';
+import type { TerrainTextures } from './terrain-textures';
+
+const EMISSION_INTENSITY = 2.0;  // Emission 1 glows at twice the ground colour (bright enough to bloom)
+
+const vertexPars = /* glsl */`
+attribute vec4 materialSlots;
+attribute vec4 materialWeights;
+uniform vec4 terrainSurfaces[ ${MAX_MATERIAL_SLOTS} ];
+varying vec4 vTerrainSurface;
+
+#ifdef USE_SPLAT
+    attribute vec4 splatWeights0;
+    attribute vec4 splatWeights1;
+    varying vec4 vSplatWeights0;
+    varying vec4 vSplatWeights1;
+    varying vec3 vSplatPosition;
+    varying vec3 vSplatNormal;
+#endif
+`;
+
+const vertexMain = /* glsl */`
+vTerrainSurface = terrainSurfaces[ int( materialSlots.x + 0.5 ) ] * materialWeights.x
+    + terrainSurfaces[ int( materialSlots.y + 0.5 ) ] * materialWeights.y
+    + terrainSurfaces[ int( materialSlots.z + 0.5 ) ] * materialWeights.z
+    + terrainSurfaces[ int( materialSlots.w + 0.5 ) ] * materialWeights.w;
+
+#ifdef USE_SPLAT
+    vSplatWeights0 = splatWeights0;
+    vSplatWeights1 = splatWeights1;
+    vSplatPosition = ( modelMatrix * vec4( transformed, 1.0 ) ).xyz;
+    vSplatNormal = normalize( mat3( modelMatrix ) * objectNormal );
+#endif
+`;
+
+const fragmentPars = /* glsl */`
+varying vec4 vTerrainSurface;  // Emission, metalness, roughness, iridescence
+
+#ifdef USE_SPLAT
+    uniform sampler2DArray splatAlbedoMap;
+    uniform sampler2DArray splatSurfaceMap;
+    uniform float splatScales[ ${MAX_TEXTURE_LAYERS} ];
+    uniform vec3 splatTints[ ${MAX_TEXTURE_LAYERS} ];
+    varying vec4 vSplatWeights0;
+    varying vec4 vSplatWeights1;
+    varying vec3 vSplatPosition;
+    varying vec3 vSplatNormal;
+
+    // Whiteout blend of a tangent-space normal onto the surface normal n, per projection axis
+    vec3 splatNormalX( vec3 t, vec3 n ) { return vec3( abs( t.z ) * n.x, t.y + n.y, t.x + n.z ); }
+    vec3 splatNormalY( vec3 t, vec3 n ) { return vec3( t.x + n.x, abs( t.z ) * n.y, t.y + n.z ); }
+    vec3 splatNormalZ( vec3 t, vec3 n ) { return vec3( t.x + n.x, t.y + n.y, abs( t.z ) * n.z ); }
+#endif
+`;
+
+// Runs where the vertex colour is applied; the normal and roughness are used further down
+const fragmentSplat = /* glsl */`
+#include <color_fragment>
+
+#ifdef USE_SPLAT
+    vec3 splatGeometryNormal = normalize( vSplatNormal );
+
+    // Side projections only take over on steep ground
+    vec3 splatBlend = pow( abs( splatGeometryNormal ), vec3( 4.0 ) );
+    splatBlend = max( splatBlend / dot( splatBlend, vec3( 1.0 ) ) - 0.02, 0.0 );
+    splatBlend /= dot( splatBlend, vec3( 1.0 ) );
+
+    // Derivatives taken up front: the layer loop branches, and mip selection needs them
+    vec3 splatDx = dFdx( vSplatPosition );
+    vec3 splatDy = dFdy( vSplatPosition );
+
+    vec3 splatAlbedo = vec3( 0.0 );
+    vec3 splatNormal = vec3( 0.0 );
+    float splatRoughness = 0.0;
+    float splatCoverage = 0.0;
+
+    for ( int i = 0; i < ${MAX_TEXTURE_LAYERS}; i ++ ) {
+        float weight = i < 4 ? vSplatWeights0[ i ] : vSplatWeights1[ i - 4 ];
+        if ( weight < 0.01 ) continue;
+
+        float scale = 1.0 / splatScales[ i ];
+        vec3 p = vSplatPosition * scale;
+        vec3 dx = splatDx * scale;
+        vec3 dy = splatDy * scale;
+        float layer = float( i );
+
+        vec4 layerAlbedo = vec4( 0.0 );
+        vec4 layerSurface = vec4( 0.0 );
+        vec3 layerNormal = vec3( 0.0 );
+        vec4 surface;
+
+        if ( splatBlend.y > 0.0 ) {
+            layerAlbedo += textureGrad( splatAlbedoMap, vec3( p.xz, layer ), dx.xz, dy.xz ) * splatBlend.y;
+            surface = textureGrad( splatSurfaceMap, vec3( p.xz, layer ), dx.xz, dy.xz );
+            layerNormal += splatNormalY( surface.xyz * 2.0 - 1.0, splatGeometryNormal ) * splatBlend.y;
+            layerSurface.a += surface.a * splatBlend.y;
+        }
+        if ( splatBlend.x > 0.0 ) {
+            layerAlbedo += textureGrad( splatAlbedoMap, vec3( p.zy, layer ), dx.zy, dy.zy ) * splatBlend.x;
+            surface = textureGrad( splatSurfaceMap, vec3( p.zy, layer ), dx.zy, dy.zy );
+            layerNormal += splatNormalX( surface.xyz * 2.0 - 1.0, splatGeometryNormal ) * splatBlend.x;
+            layerSurface.a += surface.a * splatBlend.x;
+        }
+        if ( splatBlend.z > 0.0 ) {
+            layerAlbedo += textureGrad( splatAlbedoMap, vec3( p.xy, layer ), dx.xy, dy.xy ) * splatBlend.z;
+            surface = textureGrad( splatSurfaceMap, vec3( p.xy, layer ), dx.xy, dy.xy );
+            layerNormal += splatNormalZ( surface.xyz * 2.0 - 1.0, splatGeometryNormal ) * splatBlend.z;
+            layerSurface.a += surface.a * splatBlend.z;
+        }
+
+        splatAlbedo += layerAlbedo.rgb * splatTints[ i ] * weight;
+        splatNormal += normalize( layerNormal ) * weight;
+        splatRoughness += layerSurface.a * weight;
+        splatCoverage += weight;
+    }
+
+    splatCoverage = min( splatCoverage, 1.0 );
+    diffuseColor.rgb = diffuseColor.rgb * ( 1.0 - splatCoverage ) + splatAlbedo;
+#endif
+`;
+
+const fragmentRoughness = /* glsl */`
+float roughnessFactor = vTerrainSurface.z;
+#ifdef USE_SPLAT
+    roughnessFactor = roughnessFactor * ( 1.0 - splatCoverage ) + splatRoughness;
+#endif
+`;
+
+const fragmentMetalness = /* glsl */`
+float metalnessFactor = vTerrainSurface.y;
+`;
+
+const fragmentNormal = /* glsl */`
+#include <normal_fragment_maps>
+#ifdef USE_SPLAT
+    normal = normalize( ( viewMatrix * vec4( splatNormal + splatGeometryNormal * ( 1.0 - splatCoverage ), 0.0 ) ).xyz );
+#endif
+`;
+
+// Glow in the ground's own (textured) colour
+const fragmentEmissive = /* glsl */`
+totalEmissiveRadiance += diffuseColor.rgb * vTerrainSurface.x * ${EMISSION_INTENSITY.toFixed(1)};
+`;
+
+const fragmentIridescence = /* glsl */`
+#include <lights_physical_fragment>
+#ifdef USE_IRIDESCENCE
+    material.iridescence = vTerrainSurface.w;
+#endif
+`;
+
+/**
+ * The lit, fogged, vertex-coloured terrain material. `surfaces` are the
+ * material slots the materialSlots attribute indexes; `textures` (if any) are
+ * blended by the splatWeights0/1 attributes. Geometry without those attributes
+ * is plain terrain showing its vertex colours.
+ */
+export function createTerrainMaterial(textures: TerrainTextures | null, surfaces: SurfaceProperties[]): THREE.ShaderMaterial {
+    const physical = THREE.ShaderLib.physical;
+    const uniforms = THREE.UniformsUtils.clone(physical.uniforms);
+    uniforms.iridescenceThicknessMaximum.value = 800;
+
+    const surfaceValues = Array.from({ length: MAX_MATERIAL_SLOTS }, (_, slot) => {
+        const surface = surfaces[slot] ?? surfaces[0];
+        return new THREE.Vector4(surface.emission, surface.metalness, surface.roughness, surface.iridescence);
+    });
+    // Assigned after cloning so the material shares the textures instead of copying them
+    Object.assign(uniforms, {
+        terrainSurfaces: { value: surfaceValues },
+        splatAlbedoMap: { value: textures?.albedo ?? null },
+        splatSurfaceMap: { value: textures?.surface ?? null },
+        splatScales: { value: textures?.scales ?? [] },
+        splatTints: { value: textures?.tints ?? [] }
+    });
+
+    // Iridescence needs the physical material's extra BRDF terms, so only pay for it when a biome uses it
+    const defines: Record<string, string> = {};
+    if (textures) defines.USE_SPLAT = '';
+    if (surfaces.some(surface => surface.iridescence > 0)) {
+        defines.PHYSICAL = '';
+        defines.USE_IRIDESCENCE = '';
+    }
+
+    const material = new THREE.ShaderMaterial({
+        uniforms,
+        defines,
+        vertexShader: physical.vertexShader
+            .replace('#include <common>', `#include <common>\n${vertexPars}`)
+            .replace('#include <fog_vertex>', `#include <fog_vertex>\n${vertexMain}`),
+        fragmentShader: physical.fragmentShader
+            .replace('#include <common>', `#include <common>\n${fragmentPars}`)
+            .replace('#include <color_fragment>', fragmentSplat)
+            .replace('#include <roughnessmap_fragment>', fragmentRoughness)
+            .replace('#include <metalnessmap_fragment>', fragmentMetalness)
+            .replace('#include <normal_fragment_maps>', fragmentNormal)
+            .replace('#include <emissivemap_fragment>', fragmentEmissive)
+            .replace('#include <lights_physical_fragment>', fragmentIridescence),
+        lights: true,
+        fog: true,
+        vertexColors: true
+    });
+    material.name = 'terrain';
+    // Missing attributes would otherwise read WebGL's default (0, 0, 0, 1): plain terrain and no textures instead
+    Object.assign(material.defaultAttributeValues, {
+        materialSlots: [0, 0, 0, 0],
+        materialWeights: [1, 0, 0, 0],
+        splatWeights0: [0, 0, 0, 0],
+        splatWeights1: [0, 0, 0, 0]
+    });
+    return material;
+}
+
+// Interleaved weights (MAX_TEXTURE_LAYERS per vertex) as the two vec4 attributes the material reads
+export function setSplatWeights(geometry: THREE.BufferGeometry, splat: Float32Array): void {
+    const buffer = new THREE.InterleavedBuffer(splat, MAX_TEXTURE_LAYERS);
+    geometry.setAttribute('splatWeights0', new THREE.InterleavedBufferAttribute(buffer, 4, 0));
+    geometry.setAttribute('splatWeights1', new THREE.InterleavedBufferAttribute(buffer, 4, 4));
+}
+
+// Interleaved slot indices and weights (from TerrainSampler.sampleMaterialWeights) as the material's two vec4 attributes
+export function setMaterialWeights(geometry: THREE.BufferGeometry, materials: Float32Array): void {
+    const buffer = new THREE.InterleavedBuffer(materials, MATERIAL_SLOTS_PER_VERTEX * 2);
+    geometry.setAttribute('materialSlots', new THREE.InterleavedBufferAttribute(buffer, 4, 0));
+    geometry.setAttribute('materialWeights', new THREE.InterleavedBufferAttribute(buffer, 4, MATERIAL_SLOTS_PER_VERTEX));
+}
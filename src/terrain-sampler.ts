@@ -0,0 +1,787 @@
+/**
+ * Terrain Sampler
+ *
+ * The per-sample terrain function (biome lookup, elevation, vertex colour) and
+ * the grid kernels built on it. Nothing in here touches THREE or the DOM so the
+ * exact same code runs on the main thread and inside generation workers.
+ */
+
+import { PerlinNoise, createNoise } from './noise';
+import type { NoiseGenerator } from './noise';
+import { compileHeightGraph } from './terrain-height-graph';
+import { shapeElevation } from './terrain-shaping';
+import type { CompiledHeightGraph } from './terrain-height-graph';
+import { deriveSeed } from './random';
+import { resolveTextureLayers, accumulateTextureWeights, MAX_TEXTURE_LAYERS } from './terrain-splat';
+import type { TextureRule } from './terrain-splat';
+import { colorRuleCoverage, rulesNeedEdgeNoise } from './terrain-color-rules';
+import { resolveBiomeMaterials, writeMaterialWeights, MATERIAL_VALUES_PER_VERTEX, MAX_MATERIAL_SLOTS } from './terrain-biome-materials';
+import type { SurfaceProperties } from './terrain-biome-materials';
+import type { RuleSample } from './terrain-color-rules';
+import type { BiomeProfile, BiomeClimateRange, ColorRule, NoiseParams, FullTerrainParameters, TerrainLayers, TerrainTextureLayer } from './types';
+
+// Helper function for linear interpolation
+export function lerp(a: number, b: number, alpha: number): number {
+    return a * (1 - alpha) + b * alpha;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+    return t * t * (3 - 2 * t);
+}
+
+// A regular (segments + 1)^2 vertex grid centred on the origin
+export interface TerrainGrid {
+    width: number;
+    depth: number;
+    segments: number;
+}
+
+// Everything needed to build terrain geometry for a grid, as flat typed arrays
+export interface TerrainGridData {
+    grid: TerrainGrid;
+    heights: Float32Array;    // (segments + 1)^2, row-major by z
+    colors: Float32Array;     // rgb per vertex
+    normals: Float32Array;    // xyz per vertex
+    quadBiomes: Uint8Array;   // Primary biome index per quad, segments^2
+    splat: Float32Array | null; // MAX_TEXTURE_LAYERS texture weights per vertex (null when no biome has textures)
+    materials: Float32Array | null; // Material slots and weights per vertex (null when every biome is plain terrain)
+}
+
+// Progress callback shared by the sync and worker generation paths (fraction in 0-1)
+export type GenerationProgress = (fraction: number, stage: string) => void;
+
+// Temperature and moisture at a world position, both in 0-1
+export interface Climate {
+    temperature: number;
+    moisture: number;
+}
+
+export interface BiomeWeight {
+    biome: BiomeProfile;
+    weight: number;
+}
+
+export interface BiomeInfo {
+    primaryBiome: BiomeProfile;      // Biome the sample lies deepest inside (owns materials)
+    blendedParams: NoiseParams;      // Weighted average of the contributing biomes' parameters
+    weights: BiomeWeight[];          // Every biome contributing at this sample, weights sum to 1
+}
+
+// BiomeInfo without the objects, for the per-vertex loops: reused from sample to sample
+export interface BiomeBlend {
+    primaryIndex: number;            // Index of the primary biome in the sampler's (sorted) biome list
+    weights: Float64Array;           // Weight of every biome in list order, 0 for those that don't contribute
+}
+
+export type RGB = { r: number, g: number, b: number };
+
+// Default width of the blend zone around a biome's range, in selection space units
+const DEFAULT_TRANSITION_WIDTH = 0.1;
+
+const RULE_EDGE_NOISE = { scale: 0.02, octaves: 3 };  // Dithers colour rule edges over tens of units
+const DEFAULT_OCEAN_LEVEL = -50;                       // Same default as the water system
+const CANYON_OFFSET = 57.7;                            // Noise-space shift of a biome's canyon field from its height field
+
+// Blended parameters: only the numbers are averaged across biomes
+type BlendedParams = Required<Pick<NoiseParams, 'baseHeight' | 'scale' | 'octaves' | 'persistence' | 'lacunarity' | 'amplitude'>>;
+
+// Per-row buffers for sampleHeightRow (grown to the longest row seen)
+interface RowScratch {
+    zs: Float64Array;         // The row's z, repeated
+    control: Float64Array;    // Biome control noise, or temperature in climate mode
+    moisture: Float64Array;
+    base: Float64Array;
+    ridges: Float64Array;
+    details: Float64Array;
+    layers: Float64Array;     // sampleLayerHeight per sample
+    heights: Float64Array;    // sampleBiomeHeight per sample
+    owner: Int32Array;        // Biome with the sample to itself, -1 in blend zones
+    batchXs: Float64Array;    // One biome's owned samples...
+    batchIndex: Int32Array;   // ...and where they sit in the row
+    batchValues: Float64Array;
+}
+
+// Slope of a surface in degrees from the y component of its unit normal
+function slopeDegrees(normalY: number): number {
+    return Math.acos(Math.min(Math.max(normalY, -1), 1)) * 180 / Math.PI;
+}
+
+export class TerrainSampler {
+    biomeControlNoise: NoiseGenerator;
+    biomeNoise: Map<BiomeProfile, NoiseGenerator>; // Elevation noise per biome
+    layerNoise: { base: NoiseGenerator; mountains: NoiseGenerator; details: NoiseGenerator } | null;
+    climateNoise: { temperature: NoiseGenerator; moisture: NoiseGenerator } | null;
+
+    terrainParams: FullTerrainParameters;
+    biomes: BiomeProfile[];
+
+    // Texture slots shared by the biomes' texture layers, and where each biome uses them
+    textureLayers: TerrainTextureLayer[];
+    textureRules: Map<BiomeProfile, TextureRule[]>;
+    colorRuleSlots: Map<ColorRule, number>;
+
+    // Colour rules measure shorelines from here: the sea when the world has one, otherwise height 0
+    waterLevel: number;
+    ruleNoise: PerlinNoise;
+    private splatScratch = new Float32Array(MAX_TEXTURE_LAYERS);
+    private ruleScratch: RuleSample = { height: 0, slope: 0, waterLevel: 0, edgeNoise: 0 };
+    private colorScratch: RGB = { r: 0, g: 0, b: 0 };
+
+    // Surface property slots for the terrain shader, and the slot each biome uses
+    materialSlots: SurfaceProperties[];
+    materialSlotOfBiome: Map<BiomeProfile, number>;
+    private slotWeights = new Float64Array(MAX_MATERIAL_SLOTS);
+
+    // Height recipe replacing biomes + layers (null without one, or when it doesn't compile)
+    heightGraph: CompiledHeightGraph | null = null;
+    private lastBiomeInfo: { worldX: number; worldZ: number; info: BiomeInfo | null } = { worldX: NaN, worldZ: NaN, info: null };
+
+    // Reused per sample so the height path doesn't allocate: distance to and weight of every biome,
+    // their blended parameters, and the parameters calculateElevation hands to the noise
+    private biomeDistances: Float64Array;
+    private biomeWeights: Float64Array;
+    private blendedScratch: BlendedParams = { baseHeight: 0, scale: 0, octaves: 0, persistence: 0, lacunarity: 0, amplitude: 0 };
+    private elevationParams: BlendedParams & Pick<NoiseParams, 'fractal' | 'warp'> = { baseHeight: 0, scale: 0, octaves: 0, persistence: 0, lacunarity: 0, amplitude: 0 };
+    // Each biome's parameters where it is the only biome (the blend at a weight of 1)
+    private soloParams: BlendedParams[];
+    private canyonParams = { scale: 0, octaves: 3 };
+    // Blend used by the shading samplers when the caller doesn't pass one
+    private sampleBlend: BiomeBlend;
+    private rowScratch: RowScratch | null = null;
+
+    // Every noise table is derived from params.seed, so identical parameters give an identical world
+    constructor(params: FullTerrainParameters) {
+        this.terrainParams = params;
+        const worldSeed = this.terrainParams.seed;
+        this.biomeControlNoise = createNoise(deriveSeed(worldSeed, 'biomeControl', this.terrainParams.biomeControl.seed), this.terrainParams.biomeControl);
+
+        this.biomes = this.terrainParams.biomes;
+        // Sort biomes by control range to ensure correct lookups
+        this.biomes.sort((a, b) => a.controlRange[0] - b.controlRange[0]);
+
+        const { slots, rules, colorRuleSlots } = resolveTextureLayers(this.biomes);
+        this.textureLayers = slots;
+        this.textureRules = rules;
+        this.colorRuleSlots = colorRuleSlots;
+
+        const materials = resolveBiomeMaterials(this.biomes);
+        this.materialSlots = materials.slots;
+        this.materialSlotOfBiome = materials.slotOfBiome;
+
+        const water = this.terrainParams.water;
+        this.waterLevel = water?.enabled && water.hasOcean ? (water.oceanLevel ?? DEFAULT_OCEAN_LEVEL) : 0;
+        this.ruleNoise = new PerlinNoise(deriveSeed(worldSeed, 'colorRules'));
+
+        this.biomeNoise = new Map();
+        for (const biome of this.biomes) {
+            this.biomeNoise.set(biome, createNoise(deriveSeed(worldSeed, `elevation:${biome.name}`, biome.terrainParams.seed), biome.terrainParams));
+        }
+        this.biomeDistances = new Float64Array(this.biomes.length);
+        this.biomeWeights = new Float64Array(this.biomes.length);
+        this.sampleBlend = this.createBiomeBlend();
+        this.soloParams = this.biomes.map((_, i) => {
+            const weights = new Float64Array(this.biomes.length);
+            weights[i] = 1;
+            return blendNoiseParams(this.biomes, weights);
+        });
+
+        // Optional world-wide layers (older parameter files only have biomes)
+        const { terrain, environment } = this.terrainParams;
+        this.layerNoise = terrain ? {
+            base: createNoise(deriveSeed(worldSeed, 'terrain:base', terrain.base.seed), terrain.base),
+            mountains: createNoise(deriveSeed(worldSeed, 'terrain:mountains', terrain.mountains.seed), terrain.mountains),
+            details: createNoise(deriveSeed(worldSeed, 'terrain:details', terrain.details.seed), terrain.details)
+        } : null;
+        this.climateNoise = environment ? {
+            temperature: createNoise(deriveSeed(worldSeed, 'environment:temperature', environment.temperature.seed), environment.temperature),
+            moisture: createNoise(deriveSeed(worldSeed, 'environment:moisture', environment.moisture.seed), environment.moisture)
+        } : null;
+
+        if (this.terrainParams.heightGraph) {
+            try {
+                this.heightGraph = compileHeightGraph(this.terrainParams.heightGraph, worldSeed, this);
+            } catch (error) {
+                console.warn(`⚠️ ${error instanceof Error ? error.message : error} - using the default terrain height`);
+            }
+        }
+    }
+
+    // Temperature and moisture fields for biome selection (neutral 0.5 when the params have none)
+    sampleClimate(worldX: number, worldZ: number): Climate {
+        const environment = this.terrainParams.environment;
+        if (!environment || !this.climateNoise) return { temperature: 0.5, moisture: 0.5 };
+
+        return {
+            temperature: toClimateUnit(this.climateNoise.temperature.fractal(worldX, worldZ, environment.temperature)),
+            moisture: toClimateUnit(this.climateNoise.moisture.fractal(worldX, worldZ, environment.moisture))
+        };
+    }
+
+    // Height added by the world-wide terrain layers: base + mountains (ridged unless they pick another fractal) + details
+    sampleLayerHeight(worldX: number, worldZ: number): number {
+        const layers = this.terrainParams.terrain;
+        if (!layers || !this.layerNoise) return 0;
+
+        const base = this.layerNoise.base.fractal(worldX, worldZ, layers.base);
+        // Mountains rise from their baseHeight, so they use the fractal in 0-1
+        const ridges = 0.5 + 0.5 * this.layerNoise.mountains.fractal(worldX, worldZ, layers.mountains, 'ridged');
+        const details = this.layerNoise.details.fractal(worldX, worldZ, layers.details);
+        return this.combineLayers(layers, base, ridges, details);
+    }
+
+    private combineLayers(layers: TerrainLayers, base: number, ridges: number, details: number): number {
+        // Ranges rise out of the high ground and fade out towards the lowlands
+        const mountainMask = smoothstep(-0.2, 0.4, base);
+        return this.terrainParams.global.maxHeight * (
+            layerHeight(layers.base, base) +
+            layerHeight(layers.mountains, ridges) * mountainMask +
+            layerHeight(layers.details, details)
+        );
+    }
+
+    /**
+     * Weighted biome blend at a world position. Each biome gets a signed distance
+     * from the sample to its range (controlRange in 'range' mode, a climate box in
+     * 'climate' mode), and every biome within its transitionWidth of the nearest
+     * one contributes. On a shared border both sides get equal weight, so heights
+     * and colours meet without seams from either direction.
+     */
+    getBiomeInfo(worldX: number, worldZ: number): BiomeInfo {
+        const primaryIndex = this.computeBiomeWeights(this.getBiomeDistances(worldX, worldZ));
+
+        const weights: BiomeWeight[] = [];
+        for (let i = 0; i < this.biomes.length; i++) {
+            if (this.biomeWeights[i] > 0) weights.push({ biome: this.biomes[i], weight: this.biomeWeights[i] });
+        }
+
+        return {
+            primaryBiome: this.biomes[primaryIndex],
+            blendedParams: blendNoiseParams(this.biomes, this.biomeWeights),
+            weights
+        };
+    }
+
+    // Normalised weight of every biome (0 outside its blend zone) into biomeWeights; returns the primary biome's index
+    private computeBiomeWeights(distances: Float64Array): number {
+        let primaryIndex = 0;
+        for (let i = 1; i < distances.length; i++) {
+            if (distances[i] < distances[primaryIndex]) primaryIndex = i;
+        }
+        const nearest = distances[primaryIndex];
+
+        const weights = this.biomeWeights;
+        let totalWeight = 0;
+        for (let i = 0; i < this.biomes.length; i++) {
+            const width = Math.max(this.biomes[i].transitionWidth ?? DEFAULT_TRANSITION_WIDTH, 1e-6);
+            const weight = smoothstep(0, 1, 1 - (distances[i] - nearest) / width);
+            weights[i] = weight > 0 ? weight : 0;
+            totalWeight += weights[i];
+        }
+        for (let i = 0; i < weights.length; i++) weights[i] /= totalWeight;
+        return primaryIndex;
+    }
+
+    // A BiomeBlend to pass to sampleBiomeBlend(), sized for this world's biomes
+    createBiomeBlend(): BiomeBlend {
+        return { primaryIndex: 0, weights: new Float64Array(this.biomes.length) };
+    }
+
+    // getBiomeInfo() into `out`, without allocating
+    sampleBiomeBlend(worldX: number, worldZ: number, out: BiomeBlend): BiomeBlend {
+        out.primaryIndex = this.computeBiomeWeights(this.getBiomeDistances(worldX, worldZ));
+        out.weights.set(this.biomeWeights);
+        return out;
+    }
+
+    // Signed distance (negative inside) from the sample to every biome's selection range, into biomeDistances
+    private getBiomeDistances(worldX: number, worldZ: number): Float64Array {
+        if (this.terrainParams.biomeControl.mode === 'climate') {
+            const climate = this.sampleClimate(worldX, worldZ);
+            return this.climateDistances(climate.temperature, climate.moisture, this.sampleLayerHeight(worldX, worldZ));
+        }
+        return this.controlDistances(this.biomeControlNoise.fractal(worldX, worldZ, this.terrainParams.biomeControl));
+    }
+
+    private controlDistances(controlValue: number): Float64Array {
+        const distances = this.biomeDistances;
+        for (let i = 0; i < this.biomes.length; i++) {
+            const [min, max] = this.biomes[i].controlRange;
+            distances[i] = Math.max(min - controlValue, controlValue - max);
+        }
+        return distances;
+    }
+
+    // Whittaker-style: biomes are boxes in (temperature, moisture, elevation) space
+    private climateDistances(temperature: number, moisture: number, layerHeight: number): Float64Array {
+        const maxHeight = this.terrainParams.global.maxHeight;
+        const elevation = maxHeight !== 0
+            ? Math.min(Math.max(0.5 + 0.5 * layerHeight / Math.abs(maxHeight), 0), 1)
+            : 0.5;
+        const distances = this.biomeDistances;
+        for (let i = 0; i < this.biomes.length; i++) {
+            distances[i] = climateBoxDistance(this.biomes[i].climate, temperature, moisture, elevation);
+        }
+        return distances;
+    }
+
+    // `own` (the biome's own parameters) supplies the fractal, warp and shaping (blended parameters only carry the numbers)
+    calculateElevation(worldX: number, worldZ: number, biomeParams: NoiseParams, noise: NoiseGenerator,
+                       own: NoiseParams = biomeParams): number {
+        const params = this.elevationParams;
+        params.baseHeight = biomeParams.baseHeight ?? 0;
+        params.scale = biomeParams.scale;
+        params.octaves = biomeParams.octaves;
+        params.persistence = biomeParams.persistence ?? 0.5;
+        params.lacunarity = biomeParams.lacunarity ?? 2.0;
+        params.amplitude = biomeParams.amplitude ?? 1;
+        params.fractal = own.fractal;
+        params.warp = own.warp;
+        const noiseVal = noise.fractal(worldX, worldZ, params);
+        const height = params.baseHeight + noiseVal * params.amplitude;
+        if (!own.shape) return height;
+
+        // Canyons follow the zero crossings of a second, offset field of the biome's noise
+        const canyon = own.shape.canyon;
+        const canyonParams = this.canyonParams;
+        canyonParams.scale = canyon?.scale ?? params.scale;
+        const canyonDistance = canyon
+            ? Math.abs(noise.fBm(worldX + CANYON_OFFSET / canyonParams.scale, worldZ - CANYON_OFFSET / canyonParams.scale, canyonParams))
+            : 0;
+        return shapeElevation(height, noiseVal, params.baseHeight, params.amplitude, own.shape, canyonDistance);
+    }
+
+    getBiomeTerrainColor(biome: BiomeProfile, height: number, out: RGB = { r: 0, g: 0, b: 0 }): RGB {
+        const ramp = biome.colorRamp;
+        if (!ramp || ramp.length === 0) return setRGB(out, 1, 0, 1); // Default to magenta if no ramp
+
+        const normalizedHeight = this.normalizedBiomeHeight(biome, height);
+
+        // Find the correct color in the ramp
+        for (let i = 0; i < ramp.length - 1; i++) {
+            const start = ramp[i];
+            const end = ramp[i + 1];
+            if (normalizedHeight >= start.stop && normalizedHeight <= end.stop) {
+                const t = (normalizedHeight - start.stop) / (end.stop - start.stop);
+                return setRGB(out,
+                    lerp(start.color.r, end.color.r, t),
+                    lerp(start.color.g, end.color.g, t),
+                    lerp(start.color.b, end.color.b, t));
+            }
+        }
+        const last = ramp[ramp.length - 1].color;
+        return setRGB(out, last.r, last.g, last.b);
+    }
+
+    // What a biome's colour rules see at a vertex
+    private ruleSample(rules: ColorRule[], worldX: number, worldZ: number, height: number, slope: number): RuleSample {
+        const sample = this.ruleScratch;
+        sample.height = height;
+        sample.slope = slope;
+        sample.waterLevel = this.waterLevel;
+        sample.edgeNoise = rulesNeedEdgeNoise(rules) ? this.ruleNoise.fBm(worldX, worldZ, RULE_EDGE_NOISE) : 0;
+        return sample;
+    }
+
+    // Height within the biome's own range (0 = lowest, 1 = highest)
+    private normalizedBiomeHeight(biome: BiomeProfile, height: number): number {
+        const { baseHeight, amplitude } = biome.terrainParams;
+        const minBiomeHeight = (baseHeight || 0) - (amplitude || 0);
+        const maxBiomeHeight = (baseHeight || 0) + (amplitude || 0);
+
+        // Terrain layers can push heights outside the biome's own range - clamp to its ends there
+        return Math.min(Math.max((height - minBiomeHeight) / (maxBiomeHeight - minBiomeHeight), 0), 1);
+    }
+
+    // Height of the procedural surface at any world position (independent of any generated grid)
+    sampleHeight(worldX: number, worldZ: number): number {
+        if (this.heightGraph) return this.heightGraph.evaluate(worldX, worldZ);
+        return this.sampleBiomeHeight(worldX, worldZ) + this.sampleLayerHeight(worldX, worldZ);
+    }
+
+    // Elevation from the biome noise fields alone
+    sampleBiomeHeight(worldX: number, worldZ: number): number {
+        this.computeBiomeWeights(this.getBiomeDistances(worldX, worldZ));
+        return this.blendedBiomeHeight(worldX, worldZ);
+    }
+
+    // Biome elevation at a sample whose weights are in biomeWeights
+    private blendedBiomeHeight(worldX: number, worldZ: number): number {
+        const weights = this.biomeWeights;
+        const blendedParams = blendNoiseParams(this.biomes, weights, this.blendedScratch);
+
+        // Each biome has its own noise field, so cross-fade the fields along with the parameters
+        let height = 0;
+        for (let i = 0; i < this.biomes.length; i++) {
+            if (weights[i] <= 0) continue;
+            const biome = this.biomes[i];
+            height += weights[i] * this.calculateElevation(worldX, worldZ, blendedParams, this.biomeNoise.get(biome)!, biome.terrainParams);
+        }
+        return height;
+    }
+
+    /**
+     * sampleHeight() along a row at `worldZ`: out[offset + i] for each xs[i],
+     * with identical results. The layers and the samples each biome has to
+     * itself go through the noise generators' batched fractalBatch(); blend
+     * zones, shaped biomes and height graphs are sampled one by one.
+     */
+    sampleHeightRow(xs: Float64Array, worldZ: number, out: Float32Array, offset: number): void {
+        const count = xs.length;
+        if (this.heightGraph) {
+            for (let i = 0; i < count; i++) out[offset + i] = this.heightGraph.evaluate(xs[i], worldZ);
+            return;
+        }
+
+        const row = this.rowBuffers(count);
+        const { zs, heights, owner } = row;
+        zs.fill(worldZ);
+
+        const layers = this.terrainParams.terrain;
+        if (layers && this.layerNoise) {
+            this.layerNoise.base.fractalBatch(xs, zs, count, layers.base, row.base);
+            this.layerNoise.mountains.fractalBatch(xs, zs, count, layers.mountains, row.ridges, 'ridged');
+            this.layerNoise.details.fractalBatch(xs, zs, count, layers.details, row.details);
+            for (let i = 0; i < count; i++) {
+                row.layers[i] = this.combineLayers(layers, row.base[i], 0.5 + 0.5 * row.ridges[i], row.details[i]);
+            }
+        } else {
+            row.layers.fill(0);
+        }
+
+        // Biome weights per sample: blend zones are finished here, owned samples are batched below
+        const climate = this.terrainParams.biomeControl.mode === 'climate';
+        const environment = this.terrainParams.environment;
+        if (climate && environment && this.climateNoise) {
+            this.climateNoise.temperature.fractalBatch(xs, zs, count, environment.temperature, row.control);
+            this.climateNoise.moisture.fractalBatch(xs, zs, count, environment.moisture, row.moisture);
+        } else if (climate) {
+            row.control.fill(0);
+            row.moisture.fill(0);
+        } else {
+            this.biomeControlNoise.fractalBatch(xs, zs, count, this.terrainParams.biomeControl, row.control);
+        }
+        for (let i = 0; i < count; i++) {
+            const distances = climate
+                ? this.climateDistances(toClimateUnit(row.control[i]), toClimateUnit(row.moisture[i]), row.layers[i])
+                : this.controlDistances(row.control[i]);
+            const primaryIndex = this.computeBiomeWeights(distances);
+
+            let contributors = 0;
+            for (let k = 0; k < this.biomes.length; k++) if (this.biomeWeights[k] > 0) contributors++;
+            owner[i] = contributors === 1 ? primaryIndex : -1;
+            if (contributors !== 1) heights[i] = this.blendedBiomeHeight(xs[i], worldZ);
+        }
+
+        for (let b = 0; b < this.biomes.length; b++) {
+            const biome = this.biomes[b];
+            const noise = this.biomeNoise.get(biome)!;
+            const own = biome.terrainParams;
+            const solo = this.soloParams[b];
+
+            let batchCount = 0;
+            for (let i = 0; i < count; i++) {
+                if (owner[i] !== b) continue;
+                if (own.shape) {
+                    heights[i] = this.calculateElevation(xs[i], worldZ, solo, noise, own);
+                } else {
+                    row.batchXs[batchCount] = xs[i];
+                    row.batchIndex[batchCount++] = i;
+                }
+            }
+            if (batchCount === 0) continue;
+
+            const params = this.elevationParams;
+            Object.assign(params, solo);
+            params.fractal = own.fractal;
+            params.warp = own.warp;
+            noise.fractalBatch(row.batchXs, zs, batchCount, params, row.batchValues);
+            for (let j = 0; j < batchCount; j++) heights[row.batchIndex[j]] = params.baseHeight + row.batchValues[j] * params.amplitude;
+        }
+
+        for (let i = 0; i < count; i++) out[offset + i] = heights[i] + row.layers[i];
+    }
+
+    private rowBuffers(count: number): RowScratch {
+        if (!this.rowScratch || this.rowScratch.zs.length < count) {
+            this.rowScratch = {
+                zs: new Float64Array(count),
+                control: new Float64Array(count),
+                moisture: new Float64Array(count),
+                base: new Float64Array(count),
+                ridges: new Float64Array(count),
+                details: new Float64Array(count),
+                layers: new Float64Array(count),
+                heights: new Float64Array(count),
+                owner: new Int32Array(count),
+                batchXs: new Float64Array(count),
+                batchIndex: new Int32Array(count),
+                batchValues: new Float64Array(count)
+            };
+        }
+        return this.rowScratch;
+    }
+
+    // 0-1 share of the named biome at a position (height graph masks)
+    sampleBiomeWeight(worldX: number, worldZ: number, biomeName: string): number {
+        const entry = this.biomeInfoAt(worldX, worldZ).weights.find(({ biome }) => biome.name === biomeName);
+        return entry ? entry.weight : 0;
+    }
+
+    // getBiomeInfo() remembering the last position, as a height graph may ask several times per sample
+    private biomeInfoAt(worldX: number, worldZ: number): BiomeInfo {
+        const last = this.lastBiomeInfo;
+        if (!last.info || last.worldX !== worldX || last.worldZ !== worldZ) {
+            last.worldX = worldX;
+            last.worldZ = worldZ;
+            last.info = this.getBiomeInfo(worldX, worldZ);
+        }
+        return last.info;
+    }
+
+    /**
+     * Vertex colour for a world position at the given (already sampled) height:
+     * each biome's colour ramp, painted over by its colour rules. `normalY` is
+     * the y of the unit surface normal, for slope rules (1 = flat). Grid loops
+     * pass the vertex's biome blend and a colour to fill.
+     */
+    sampleColor(worldX: number, worldZ: number, height: number, normalY = 1,
+                blend: BiomeBlend = this.sampleBiomeBlend(worldX, worldZ, this.sampleBlend),
+                out: RGB = { r: 0, g: 0, b: 0 }): RGB {
+        setRGB(out, 0, 0, 0);
+        const biomeColor = this.colorScratch;
+        for (let i = 0; i < this.biomes.length; i++) {
+            const weight = blend.weights[i];
+            if (weight <= 0) continue;
+            const biome = this.biomes[i];
+            let { r, g, b } = this.getBiomeTerrainColor(biome, height, biomeColor);
+            if (biome.colorRules && biome.colorRules.length > 0) {
+                const sample = this.ruleSample(biome.colorRules, worldX, worldZ, height, slopeDegrees(normalY));
+                for (const rule of biome.colorRules) {
+                    const coverage = colorRuleCoverage(rule, sample);
+                    r = lerp(r, rule.color.r, coverage);
+                    g = lerp(g, rule.color.g, coverage);
+                    b = lerp(b, rule.color.b, coverage);
+                }
+            }
+            out.r += r * weight;
+            out.g += g * weight;
+            out.b += b * weight;
+        }
+        return out;
+    }
+
+    /**
+     * Texture slot weights for a vertex, written to `out` from `offset`. They add
+     * up to how much of the sample is textured (the rest shows the vertex colour).
+     * Colour rules take their share from the layers under them, for their own
+     * texture or, without one, for their colour.
+     */
+    sampleTextureWeights(worldX: number, worldZ: number, height: number, normalY: number, out: Float32Array, offset: number,
+                         blend: BiomeBlend = this.sampleBiomeBlend(worldX, worldZ, this.sampleBlend)): void {
+        out.fill(0, offset, offset + MAX_TEXTURE_LAYERS);
+        const slope = slopeDegrees(normalY);
+        const biomeWeights = this.splatScratch;
+        for (let i = 0; i < this.biomes.length; i++) {
+            const weight = blend.weights[i];
+            if (weight <= 0) continue;
+            const biome = this.biomes[i];
+            const rules = this.textureRules.get(biome);
+            const colorRules = biome.colorRules;
+            if (!rules && !colorRules?.length) continue;
+
+            biomeWeights.fill(0);
+            if (rules) accumulateTextureWeights(rules, this.normalizedBiomeHeight(biome, height), slope, 1, biomeWeights, 0);
+            if (colorRules?.length) {
+                const sample = this.ruleSample(colorRules, worldX, worldZ, height, slope);
+                for (const rule of colorRules) {
+                    const coverage = colorRuleCoverage(rule, sample);
+                    if (coverage <= 0) continue;
+                    for (let k = 0; k < MAX_TEXTURE_LAYERS; k++) biomeWeights[k] *= 1 - coverage;
+                    const slot = this.colorRuleSlots.get(rule);
+                    if (slot !== undefined) biomeWeights[slot] += coverage;
+                }
+            }
+            for (let k = 0; k < MAX_TEXTURE_LAYERS; k++) out[offset + k] += biomeWeights[k] * weight;
+        }
+    }
+
+    /**
+     * Material slot indices and weights for a vertex (MATERIAL_VALUES_PER_VERTEX
+     * values written to `out` from `offset`), from the biomes blending there.
+     */
+    sampleMaterialWeights(worldX: number, worldZ: number, out: Float32Array, offset: number,
+                          blend: BiomeBlend = this.sampleBiomeBlend(worldX, worldZ, this.sampleBlend)): void {
+        const slotWeights = this.slotWeights;
+        slotWeights.fill(0);
+        for (let i = 0; i < this.biomes.length; i++) {
+            const weight = blend.weights[i];
+            if (weight > 0) slotWeights[this.materialSlotOfBiome.get(this.biomes[i]) ?? 0] += weight;
+        }
+        writeMaterialWeights(slotWeights, out, offset);
+    }
+
+    // Index (into the sorted biome list) of the biome that owns a world position
+    samplePrimaryBiomeIndex(worldX: number, worldZ: number): number {
+        return this.sampleBiomeBlend(worldX, worldZ, this.sampleBlend).primaryIndex;
+    }
+}
+
+// Weighted average of the numeric terrain parameters (into `blended`, biomes at weight 0 skipped). Fractal, warp and shaping
+// stay with each biome: sampleBiomeHeight shapes every biome's own field before cross-fading, so steps and plateaus ease out at borders
+function blendNoiseParams(biomes: BiomeProfile[], weights: Float64Array,
+                          blended: BlendedParams = { baseHeight: 0, scale: 0, octaves: 0, persistence: 0, lacunarity: 0, amplitude: 0 }): BlendedParams {
+    blended.baseHeight = blended.scale = blended.octaves = blended.persistence = blended.lacunarity = blended.amplitude = 0;
+    for (let i = 0; i < biomes.length; i++) {
+        const weight = weights[i];
+        if (weight <= 0) continue;
+        const params = biomes[i].terrainParams;
+        blended.baseHeight += (params.baseHeight || 0) * weight;
+        blended.scale += params.scale * weight;
+        blended.octaves += params.octaves * weight;
+        blended.persistence += (params.persistence || 0.5) * weight;
+        blended.lacunarity += (params.lacunarity || 2.0) * weight;
+        blended.amplitude += (params.amplitude || 0) * weight;
+    }
+    return blended;
+}
+
+function setRGB(color: RGB, r: number, g: number, b: number): RGB {
+    color.r = r;
+    color.g = g;
+    color.b = b;
+    return color;
+}
+
+// Signed distance from a climate point to a biome's box (negative inside)
+function climateBoxDistance(range: BiomeClimateRange | undefined, temperature: number, moisture: number, elevation: number): number {
+    const t = axisDistance(range?.temperature, temperature);
+    const m = axisDistance(range?.moisture, moisture);
+    const e = axisDistance(range?.elevation, elevation);
+    const outside = Math.max(t, 0) ** 2 + Math.max(m, 0) ** 2 + Math.max(e, 0) ** 2;
+    return Math.sqrt(outside) + Math.min(Math.max(t, m, e), 0);
+}
+
+// Signed distance along one climate axis (an unset axis spans all of 0-1)
+function axisDistance(bounds: [number, number] | undefined, value: number): number {
+    const min = bounds ? bounds[0] : 0;
+    const max = bounds ? bounds[1] : 1;
+    return Math.abs(value - (min + max) / 2) - (max - min) / 2;
+}
+
+function layerHeight(params: NoiseParams, value: number): number {
+    return (params.baseHeight || 0) + value * (params.amplitude || 0);
+}
+
+// Climate noise (about -1..1) to the 0-1 temperature and moisture biomes are placed by
+function toClimateUnit(value: number): number {
+    return Math.min(Math.max(0.5 + 0.5 * value, 0), 1);
+}
+
+function gridWorldX(grid: TerrainGrid, x: number): number {
+    return (x / grid.segments) * grid.width - grid.width / 2;
+}
+
+function gridWorldZ(grid: TerrainGrid, z: number): number {
+    return (z / grid.segments) * grid.depth - grid.depth / 2;
+}
+
+/**
+ * Raw heights for grid rows [zStart, zEnd), written row-major into `out`
+ * (which holds exactly those rows).
+ */
+export function computeHeightRows(sampler: TerrainSampler, grid: TerrainGrid, zStart: number, zEnd: number,
+                                  out: Float32Array, onRow?: (rowsDone: number) => void): void {
+    const row = grid.segments + 1;
+    const xs = new Float64Array(row);
+    for (let x = 0; x <= grid.segments; x++) xs[x] = gridWorldX(grid, x);
+    for (let z = zStart; z < zEnd; z++) {
+        sampler.sampleHeightRow(xs, gridWorldZ(grid, z), out, (z - zStart) * row);
+        if (onRow) onRow(z - zStart + 1);
+    }
+}
+
+/**
+ * Normals, vertex colours, texture weights (if `splat` is given) and material
+ * weights (if `materials` is given) for grid rows [zStart, zEnd), plus the primary biome of every quad whose top-left
+ * corner lies in those rows.
+ *
+ * `heights` covers rows [heightsStart, heightsStart + heights.length / row) and
+ * must include one row above and below the band (where they exist) so normals
+ * at band edges match a single-pass generation.
+ */
+export function computeShadingRows(sampler: TerrainSampler, grid: TerrainGrid, zStart: number, zEnd: number,
+                                   heights: Float32Array, heightsStart: number,
+                                   colors: Float32Array, normals: Float32Array, quadBiomes: Uint8Array,
+                                   splat: Float32Array | null, materials: Float32Array | null,
+                                   onRow?: (rowsDone: number) => void): void {
+    const { segments } = grid;
+    const row = segments + 1;
+    const stepX = grid.width / segments;
+    const stepZ = grid.depth / segments;
+    const heightAt = (x: number, z: number) => heights[(z - heightsStart) * row + x];
+    // Colours, texture and material weights all read the vertex's biome blend, so it is sampled once
+    const blend = sampler.createBiomeBlend();
+    const color: RGB = { r: 0, g: 0, b: 0 };
+
+    for (let z = zStart; z < zEnd; z++) {
+        const worldZ = gridWorldZ(grid, z);
+        for (let x = 0; x <= segments; x++) {
+            const i = (z - zStart) * row + x;
+            const worldX = gridWorldX(grid, x);
+            const height = heightAt(x, z);
+
+            // Central differences (one-sided on the world border)
+            const xl = Math.max(0, x - 1), xr = Math.min(segments, x + 1);
+            const zu = Math.max(0, z - 1), zd = Math.min(segments, z + 1);
+            const nx = (heightAt(xl, z) - heightAt(xr, z)) / ((xr - xl) * stepX);
+            const nz = (heightAt(x, zu) - heightAt(x, zd)) / ((zd - zu) * stepZ);
+            const length = Math.sqrt(nx * nx + 1 + nz * nz);
+            normals[i * 3] = nx / length;
+            normals[i * 3 + 1] = 1 / length;
+            normals[i * 3 + 2] = nz / length;
+
+            sampler.sampleBiomeBlend(worldX, worldZ, blend);
+            sampler.sampleColor(worldX, worldZ, height, 1 / length, blend, color);
+            colors[i * 3] = color.r;
+            colors[i * 3 + 1] = color.g;
+            colors[i * 3 + 2] = color.b;
+
+            if (splat) sampler.sampleTextureWeights(worldX, worldZ, height, 1 / length, splat, i * MAX_TEXTURE_LAYERS, blend);
+            if (materials) sampler.sampleMaterialWeights(worldX, worldZ, materials, i * MATERIAL_VALUES_PER_VERTEX, blend);
+
+            // Quad material ownership is decided by the biome at the quad centre
+            if (x < segments && z < segments) {
+                const centerX = (x + 0.5) / segments * grid.width - grid.width / 2;
+                const centerZ = (z + 0.5) / segments * grid.depth - grid.depth / 2;
+                quadBiomes[(z - zStart) * segments + x] = sampler.samplePrimaryBiomeIndex(centerX, centerZ);
+            }
+        }
+        if (onRow) onRow(z - zStart + 1);
+    }
+}
+
+/**
+ * Single-threaded version of the worker pipeline, used when workers are unavailable
+ */
+export function computeTerrainGrid(sampler: TerrainSampler, grid: TerrainGrid, onProgress?: GenerationProgress,
+                                   processHeights?: (heights: Float32Array) => void): TerrainGridData {
+    const rows = grid.segments + 1;
+    const vertexCount = rows * rows;
+
+    const heights = new Float32Array(vertexCount);
+    computeHeightRows(sampler, grid, 0, rows, heights, rowsDone => onProgress?.(0.5 * rowsDone / rows, 'heights'));
+
+    // Post-processing hook between the raw heightmap and shading
+    if (processHeights) processHeights(heights);
+
+    const colors = new Float32Array(vertexCount * 3);
+    const normals = new Float32Array(vertexCount * 3);
+    const quadBiomes = new Uint8Array(grid.segments * grid.segments);
+    const splat = sampler.textureLayers.length > 0 ? new Float32Array(vertexCount * MAX_TEXTURE_LAYERS) : null;
+    const materials = sampler.materialSlots.length > 1 ? new Float32Array(vertexCount * MATERIAL_VALUES_PER_VERTEX) : null;
+    computeShadingRows(sampler, grid, 0, rows, heights, 0, colors, normals, quadBiomes, splat, materials,
+        rowsDone => onProgress?.(0.5 + 0.5 * rowsDone / rows, 'shading'));
+
+    return { grid, heights, colors, normals, quadBiomes, splat, materials };
+}
@@ -0,0 +1,75 @@
+/**
+ * Terrain Shaping
+ *
+ * Operators that bend a height profile after the noise: terraces (rice
+ * paddies, stepped mesas), plateau caps (flat-topped buttes), canyon carving
+ * and curve remaps (steep middle = cliff bands). Biomes apply them through
+ * terrainParams.shape and height graphs through their curve and terrace nodes.
+ * Nothing in here touches THREE, so it runs in the generation workers.
+ */
+
+import type { TerrainShapeParams } from './types';
+
+export const DEFAULT_TERRACE_SHARPNESS = 0.5;
+export const DEFAULT_CANYON_WIDTH = 0.03;    // Band of the canyon noise around zero that is cut (about 0.01-0.1 is useful)
+const CANYON_FLOOR = 0.3;                    // Inner share of a canyon that is flat floor
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * Quantise a height into steps of `step` units. Each step is a flat tread for
+ * `sharpness` of its height and a smooth riser up to the next one for the rest.
+ */
+export function terrace(height: number, step: number, sharpness: number = DEFAULT_TERRACE_SHARPNESS): number {
+    if (step <= 0) return height;
+    const t = height / step;
+    const level = Math.floor(t);
+    const tread = Math.min(Math.max(sharpness, 0), 0.999);
+    return (level + smoothstep(tread, 1, t - level)) * step;
+}
+
+// Flatten everything above `level`, rounding the rim over about `smoothness` units (polynomial smooth minimum)
+export function plateau(height: number, level: number, smoothness: number = 0): number {
+    if (smoothness <= 0) return Math.min(height, level);
+    const h = Math.max(smoothness - Math.abs(height - level), 0) / smoothness;
+    return Math.min(height, level) - h * h * smoothness / 4;
+}
+
+// Piecewise-linear curve through (input, output) points sorted by input, flat past the ends
+export function evaluateCurve(points: [number, number][], value: number): number {
+    if (value <= points[0][0]) return points[0][1];
+    for (let i = 1; i < points.length; i++) {
+        const [x1, y1] = points[i];
+        if (value <= x1) {
+            const [x0, y0] = points[i - 1];
+            return x1 === x0 ? y1 : y0 + (value - x0) / (x1 - x0) * (y1 - y0);
+        }
+    }
+    return points[points.length - 1][1];
+}
+
+// 0-1 depth of a canyon where |canyon noise| is `distance`: flat floor, steep walls, nothing past `width`
+export function canyonProfile(distance: number, width: number = DEFAULT_CANYON_WIDTH): number {
+    return 1 - smoothstep(CANYON_FLOOR, 1, distance / Math.max(width, 1e-6));
+}
+
+/**
+ * Shape a biome's height. `noiseValue` is the fractal value (about -1..1) the
+ * height came from, which the curve remaps; `canyonDistance` is |canyon noise|
+ * at the sample (unused without a canyon). Applied in the order curve,
+ * terrace, plateau, canyon.
+ */
+export function shapeElevation(height: number, noiseValue: number, baseHeight: number, amplitude: number,
+                               shape: TerrainShapeParams, canyonDistance: number): number {
+    if (shape.curve && shape.curve.length > 0) {
+        const t = evaluateCurve(shape.curve, (noiseValue + 1) / 2);
+        height = baseHeight + (t * 2 - 1) * amplitude;
+    }
+    if (shape.terrace) height = terrace(height, shape.terrace.step, shape.terrace.sharpness);
+    if (shape.plateau) height = plateau(height, shape.plateau.height, shape.plateau.smoothness);
+    if (shape.canyon) height -= canyonProfile(canyonDistance, shape.canyon.width) * shape.canyon.depth;
+    return height;
+}
@@ -0,0 +1,118 @@
+/**
+ * Terrain Splat Weights
+ *
+ * Biomes list texture layers (grass, rock, snow...) with the height and slope
+ * ranges where each one shows. The layers of all biomes share a fixed number of
+ * texture slots, and every vertex gets one weight per slot, so the terrain
+ * shader can blend them without per-vertex layer indices. Nothing in here
+ * touches THREE, so the weights are computed in the generation workers.
+ */
+
+import type { BiomeProfile, ColorRule, TerrainTextureLayer } from './types';
+
+// Texture slots per world (two vec4 weight attributes in the shader)
+export const MAX_TEXTURE_LAYERS = 8;
+
+export const DEFAULT_TEXTURE_SCALE = 8;   // World units per texture repeat
+
+const HEIGHT_SOFTNESS = 0.05;   // Blend either side of a layer's height range (fraction of the biome's range)
+const SLOPE_SOFTNESS = 5;       // ... and of its slope range, in degrees
+
+// Where one of a biome's layers shows, and the slot its texture lives in
+export interface TextureRule {
+    slot: number;
+    height: [number, number];   // 0-1 of the biome's height range
+    slope: [number, number];    // Degrees
+}
+
+export interface ResolvedTextureLayers {
+    slots: TerrainTextureLayer[];                // The distinct textures, one per slot
+    rules: Map<BiomeProfile, TextureRule[]>;     // Only biomes that have texture layers
+    colorRuleSlots: Map<ColorRule, number>;      // Colour rules that splat a texture
+}
+
+// The parts of a layer that decide its texture (rules can differ between biomes sharing one)
+function textureKey(layer: TerrainTextureLayer): string {
+    const { preset, albedo, normal, roughness, tint, scale } = layer;
+    return JSON.stringify([preset ?? 'rock', albedo, normal, roughness, tint, scale ?? DEFAULT_TEXTURE_SCALE]);
+}
+
+/**
+ * Give every distinct texture (biome layers first, then colour rule textures) a
+ * slot. Textures beyond MAX_TEXTURE_LAYERS are dropped with a warning (their
+ * biomes keep the vertex colour there).
+ */
+export function resolveTextureLayers(biomes: BiomeProfile[]): ResolvedTextureLayers {
+    const slots: TerrainTextureLayer[] = [];
+    const slotByKey = new Map<string, number>();
+    const rules = new Map<BiomeProfile, TextureRule[]>();
+    const colorRuleSlots = new Map<ColorRule, number>();
+
+    const slotFor = (layer: TerrainTextureLayer, biome: BiomeProfile): number | undefined => {
+        const key = textureKey(layer);
+        let slot = slotByKey.get(key);
+        if (slot === undefined) {
+            if (slots.length >= MAX_TEXTURE_LAYERS) {
+                console.warn(`⚠️ More than ${MAX_TEXTURE_LAYERS} terrain textures - dropping ${layer.preset ?? layer.albedo} in ${biome.name}`);
+                return undefined;
+            }
+            slot = slots.length;
+            slots.push(layer);
+            slotByKey.set(key, slot);
+        }
+        return slot;
+    };
+
+    for (const biome of biomes) {
+        if (!biome.textures || biome.textures.length === 0) continue;
+        const biomeRules: TextureRule[] = [];
+        for (const layer of biome.textures) {
+            const slot = slotFor(layer, biome);
+            if (slot === undefined) continue;
+            biomeRules.push({ slot, height: layer.height ?? [0, 1], slope: layer.slope ?? [0, 90] });
+        }
+        if (biomeRules.length > 0) rules.set(biome, biomeRules);
+    }
+
+    for (const biome of biomes) {
+        for (const rule of biome.colorRules ?? []) {
+            if (!rule.texture) continue;
+            const slot = slotFor({ preset: rule.texture }, biome);
+            if (slot !== undefined) colorRuleSlots.set(rule, slot);
+        }
+    }
+    return { slots, rules, colorRuleSlots };
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+    return t * t * (3 - 2 * t);
+}
+
+// 1 inside [min, max], fading out over `softness` past each end (open ends at the limits of the range)
+export function rangeWeight(value: number, [min, max]: [number, number], lowest: number, highest: number, softness: number): number {
+    const above = min <= lowest ? 1 : smoothstep(min - softness, min + softness, value);
+    const below = max >= highest ? 1 : 1 - smoothstep(max - softness, max + softness, value);
+    return above * below;
+}
+
+/**
+ * Add one biome's layer weights at a sample to `out` (MAX_TEXTURE_LAYERS
+ * from `offset`), scaled by the biome's own weight. Where layers overlap they
+ * share the biome's weight; where none applies the vertex colour shows through.
+ */
+export function accumulateTextureWeights(rules: TextureRule[], normalizedHeight: number, slopeDegrees: number,
+                                         biomeWeight: number, out: Float32Array, offset: number): void {
+    let total = 0;
+    const weights = new Array<number>(rules.length);
+    for (let i = 0; i < rules.length; i++) {
+        const rule = rules[i];
+        weights[i] = rangeWeight(normalizedHeight, rule.height, 0, 1, HEIGHT_SOFTNESS)
+            * rangeWeight(slopeDegrees, rule.slope, 0, 90, SLOPE_SOFTNESS);
+        total += weights[i];
+    }
+    const scale = biomeWeight / Math.max(total, 1);
+    for (let i = 0; i < rules.length; i++) {
+        out[offset + rules[i].slot] += weights[i] * scale;
+    }
+}
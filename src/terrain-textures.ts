@@ -0,0 +1,267 @@
+/**
+ * Terrain Textures
+ *
+ * The surface textures behind the splat material, one array layer per texture
+ * slot. Every preset (grass, rock, snow...) is generated procedurally as a
+ * seamless tile, so worlds look detailed without downloading anything; a layer
+ * can swap in its own albedo, normal or roughness image from a local file.
+ * - albedo: sRGB colour
+ * - surface: tangent-space normal in RGB and roughness in A
+ */
+
+import * as THREE from 'three';
+import type { TerrainTextureLayer, TerrainTexturePreset } from './types';
+import { MAX_TEXTURE_LAYERS, DEFAULT_TEXTURE_SCALE } from './terrain-splat';
+
+export const TEXTURE_SIZE = 256;
+
+type Pattern = 'fbm' | 'ridged' | 'cells' | 'ripples' | 'strands';
+
+interface PresetRecipe {
+    dark: [number, number, number];     // sRGB 0-1 at the low points of the pattern
+    light: [number, number, number];    // ... and at the high points
+    period: number;                     // Pattern repeats across the tile
+    octaves: number;
+    pattern: Pattern;
+    bump: number;                       // Normal strength
+    roughness: number;
+    roughnessVariation: number;         // Higher parts get rougher by this much
+    speckle: number;                    // Per-pixel brightness grain
+}
+
+const PRESETS: Record<TerrainTexturePreset, PresetRecipe> = {
+    grass:  { dark: [0.16, 0.30, 0.08], light: [0.38, 0.55, 0.18], period: 8,  octaves: 4, pattern: 'strands', bump: 6,  roughness: 0.9,  roughnessVariation: 0.1,  speckle: 0.15 },
+    rock:   { dark: [0.30, 0.29, 0.27], light: [0.58, 0.56, 0.52], period: 4,  octaves: 5, pattern: 'ridged',  bump: 16, roughness: 0.8,  roughnessVariation: 0.15, speckle: 0.1 },
+    sand:   { dark: [0.66, 0.56, 0.38], light: [0.85, 0.76, 0.56], period: 6,  octaves: 3, pattern: 'ripples', bump: 5,  roughness: 0.95, roughnessVariation: 0.05, speckle: 0.2 },
+    snow:   { dark: [0.82, 0.86, 0.92], light: [0.97, 0.98, 1.00], period: 4,  octaves: 4, pattern: 'fbm',     bump: 3,  roughness: 0.55, roughnessVariation: 0.2,  speckle: 0.05 },
+    dirt:   { dark: [0.30, 0.21, 0.13], light: [0.50, 0.38, 0.25], period: 8,  octaves: 4, pattern: 'fbm',     bump: 8,  roughness: 0.95, roughnessVariation: 0.05, speckle: 0.2 },
+    gravel: { dark: [0.35, 0.33, 0.30], light: [0.62, 0.60, 0.55], period: 16, octaves: 2, pattern: 'cells',   bump: 12, roughness: 0.85, roughnessVariation: 0.1,  speckle: 0.1 },
+    mud:    { dark: [0.20, 0.14, 0.09], light: [0.36, 0.27, 0.18], period: 4,  octaves: 4, pattern: 'fbm',     bump: 4,  roughness: 0.35, roughnessVariation: 0.3,  speckle: 0.05 },
+    ash:    { dark: [0.12, 0.11, 0.11], light: [0.30, 0.28, 0.27], period: 8,  octaves: 4, pattern: 'fbm',     bump: 6,  roughness: 1.0,  roughnessVariation: 0,    speckle: 0.3 },
+    moss:   { dark: [0.12, 0.24, 0.07], light: [0.30, 0.45, 0.15], period: 8,  octaves: 5, pattern: 'fbm',     bump: 6,  roughness: 0.85, roughnessVariation: 0.1,  speckle: 0.15 },
+    ice:    { dark: [0.62, 0.78, 0.88], light: [0.85, 0.94, 1.00], period: 3,  octaves: 4, pattern: 'ridged',  bump: 6,  roughness: 0.15, roughnessVariation: 0.1,  speckle: 0.02 }
+};
+
+// Generated tiles are the same every time, so each preset is only built once
+const presetCache = new Map<TerrainTexturePreset, { albedo: Uint8Array<ArrayBuffer>; surface: Uint8Array<ArrayBuffer> }>();
+
+/**
+ * The array textures and per-slot settings for a world's texture slots.
+ * Layers loading from files show their preset until the image arrives.
+ */
+export class TerrainTextures {
+    readonly layers: TerrainTextureLayer[];
+    readonly albedo: THREE.DataArrayTexture;
+    readonly surface: THREE.DataArrayTexture;
+    readonly scales: number[] = new Array(MAX_TEXTURE_LAYERS).fill(DEFAULT_TEXTURE_SCALE);
+    readonly tints: THREE.Color[] = Array.from({ length: MAX_TEXTURE_LAYERS }, () => new THREE.Color(1, 1, 1));
+
+    private disposed = false;
+
+    constructor(layers: TerrainTextureLayer[]) {
+        this.layers = layers;
+        const depth = Math.max(layers.length, 1);
+        const layerSize = TEXTURE_SIZE * TEXTURE_SIZE * 4;
+        const albedoData = new Uint8Array(new ArrayBuffer(layerSize * depth));
+        const surfaceData = new Uint8Array(new ArrayBuffer(layerSize * depth));
+
+        layers.forEach((layer, slot) => {
+            const tile = generatePreset(layer.preset ?? 'rock');
+            albedoData.set(tile.albedo, slot * layerSize);
+            surfaceData.set(tile.surface, slot * layerSize);
+            this.scales[slot] = layer.scale ?? DEFAULT_TEXTURE_SCALE;
+            if (layer.tint) this.tints[slot].setRGB(layer.tint.r, layer.tint.g, layer.tint.b);
+        });
+
+        this.albedo = createArrayTexture(albedoData, depth, THREE.SRGBColorSpace);
+        this.surface = createArrayTexture(surfaceData, depth, THREE.NoColorSpace);
+
+        layers.forEach((layer, slot) => {
+            if (layer.albedo) this.loadImage(layer.albedo, slot, 'albedo');
+            if (layer.normal) this.loadImage(layer.normal, slot, 'normal');
+            if (layer.roughness) this.loadImage(layer.roughness, slot, 'roughness');
+        });
+
+        console.log(`🧱 Terrain textures: ${layers.map(layer => layer.preset ?? layer.albedo ?? 'rock').join(', ')}`);
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        this.albedo.dispose();
+        this.surface.dispose();
+    }
+
+    // Resample a local image into its slot (albedo RGB, normal RGB or roughness from the red channel)
+    private loadImage(url: string, slot: number, channel: 'albedo' | 'normal' | 'roughness'): void {
+        new THREE.ImageLoader().load(url, image => {
+            if (this.disposed) return;
+            const canvas = document.createElement('canvas');
+            canvas.width = canvas.height = TEXTURE_SIZE;
+            const context = canvas.getContext('2d', { willReadFrequently: true })!;
+            context.drawImage(image, 0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+            const pixels = context.getImageData(0, 0, TEXTURE_SIZE, TEXTURE_SIZE).data;
+
+            const texture = channel === 'albedo' ? this.albedo : this.surface;
+            const data = texture.image.data as Uint8Array<ArrayBuffer>;
+            const offset = slot * TEXTURE_SIZE * TEXTURE_SIZE * 4;
+            for (let i = 0; i < pixels.length; i += 4) {
+                if (channel === 'roughness') {
+                    data[offset + i + 3] = pixels[i];
+                } else {
+                    data[offset + i] = pixels[i];
+                    data[offset + i + 1] = pixels[i + 1];
+                    data[offset + i + 2] = pixels[i + 2];
+                }
+            }
+            texture.needsUpdate = true;
+            console.log(`🖼️ Loaded terrain ${channel} ${url}`);
+        }, undefined, () => {
+            console.warn(`⚠️ Could not load terrain ${channel} ${url} - keeping the generated texture`);
+        });
+    }
+}
+
+function createArrayTexture(data: Uint8Array<ArrayBuffer>, depth: number, colorSpace: THREE.ColorSpace): THREE.DataArrayTexture {
+    const texture = new THREE.DataArrayTexture(data, TEXTURE_SIZE, TEXTURE_SIZE, depth);
+    texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearMipmapLinearFilter;
+    texture.generateMipmaps = true;
+    texture.anisotropy = 8;
+    texture.colorSpace = colorSpace;
+    texture.needsUpdate = true;
+    return texture;
+}
+
+function generatePreset(preset: TerrainTexturePreset): { albedo: Uint8Array<ArrayBuffer>; surface: Uint8Array<ArrayBuffer> } {
+    const cached = presetCache.get(preset);
+    if (cached) return cached;
+
+    const recipe = PRESETS[preset] ?? PRESETS.rock;
+    const seed = Object.keys(PRESETS).indexOf(preset) + 1;
+    const heights = new Float32Array(TEXTURE_SIZE * TEXTURE_SIZE);
+    for (let y = 0; y < TEXTURE_SIZE; y++) {
+        for (let x = 0; x < TEXTURE_SIZE; x++) {
+            heights[x + y * TEXTURE_SIZE] = patternHeight(recipe, x / TEXTURE_SIZE, y / TEXTURE_SIZE, seed);
+        }
+    }
+
+    const albedo = new Uint8Array(new ArrayBuffer(TEXTURE_SIZE * TEXTURE_SIZE * 4));
+    const surface = new Uint8Array(new ArrayBuffer(TEXTURE_SIZE * TEXTURE_SIZE * 4));
+    const at = (x: number, y: number) => heights[((x + TEXTURE_SIZE) % TEXTURE_SIZE) + ((y + TEXTURE_SIZE) % TEXTURE_SIZE) * TEXTURE_SIZE];
+    for (let y = 0; y < TEXTURE_SIZE; y++) {
+        for (let x = 0; x < TEXTURE_SIZE; x++) {
+            const i = (x + y * TEXTURE_SIZE) * 4;
+            const h = at(x, y);
+
+            const grain = 1 + recipe.speckle * (hash(x, y, seed + 101) - 0.5) * 2;
+            for (let c = 0; c < 3; c++) {
+                albedo[i + c] = toByte((recipe.dark[c] + (recipe.light[c] - recipe.dark[c]) * h) * grain);
+            }
+            albedo[i + 3] = 255;
+
+            // Central differences, wrapping at the edges so the normals tile too
+            const nx = -(at(x + 1, y) - at(x - 1, y)) * recipe.bump;
+            const ny = -(at(x, y + 1) - at(x, y - 1)) * recipe.bump;
+            const length = Math.sqrt(nx * nx + ny * ny + 1);
+            surface[i] = toByte(nx / length * 0.5 + 0.5);
+            surface[i + 1] = toByte(ny / length * 0.5 + 0.5);
+            surface[i + 2] = toByte(1 / length * 0.5 + 0.5);
+            surface[i + 3] = toByte(recipe.roughness + recipe.roughnessVariation * (h - 0.5) * 2);
+        }
+    }
+
+    const tile = { albedo, surface };
+    presetCache.set(preset, tile);
+    return tile;
+}
+
+// Pattern height 0-1 at tile position (u, v) in [0, 1)
+function patternHeight(recipe: PresetRecipe, u: number, v: number, seed: number): number {
+    const { period, octaves } = recipe;
+    switch (recipe.pattern) {
+        case 'ridged':
+            return tileFbm(u, v, period, octaves, seed, true);
+        case 'cells': {
+            // Rounded stones with a little surface noise
+            const stone = Math.sqrt(Math.max(1 - tileCells(u, v, period, seed) * 1.6, 0));
+            return stone * 0.8 + tileFbm(u, v, period * 2, 2, seed + 7, false) * 0.2;
+        }
+        case 'ripples': {
+            // Wind ripples bent by noise (whole cycles across the tile, so they still tile)
+            const warp = tileFbm(u, v, Math.max(period / 2, 1), octaves, seed, false);
+            const ripple = Math.sin((v * period * 2 + warp * 1.5) * Math.PI * 2) * 0.5 + 0.5;
+            return ripple * 0.7 + tileFbm(u, v, period * 4, 2, seed + 7, false) * 0.3;
+        }
+        case 'strands':
+            // Clumps with fine blades on top
+            return tileFbm(u, v, period, octaves, seed, false) * 0.5 + tileNoise(u, v, period * 8, seed + 7) * 0.5;
+        case 'fbm':
+        default:
+            return tileFbm(u, v, period, octaves, seed, false);
+    }
+}
+
+function hash(x: number, y: number, seed: number): number {
+    let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(seed, 982451653)) | 0;
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+// Value noise on a lattice that wraps every `period` cells
+function tileNoise(u: number, v: number, period: number, seed: number): number {
+    const x = u * period;
+    const y = v * period;
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    const fx = x - ix;
+    const fy = y - iy;
+    const sx = fx * fx * (3 - 2 * fx);
+    const sy = fy * fy * (3 - 2 * fy);
+    const x0 = ix % period, x1 = (ix + 1) % period;
+    const y0 = iy % period, y1 = (iy + 1) % period;
+
+    const top = hash(x0, y0, seed) + (hash(x1, y0, seed) - hash(x0, y0, seed)) * sx;
+    const bottom = hash(x0, y1, seed) + (hash(x1, y1, seed) - hash(x0, y1, seed)) * sx;
+    return top + (bottom - top) * sy;
+}
+
+// Octaves double the period, so every octave tiles; ridged folds each octave into sharp creases
+function tileFbm(u: number, v: number, period: number, octaves: number, seed: number, ridged: boolean): number {
+    let sum = 0;
+    let amplitude = 0.5;
+    let total = 0;
+    for (let octave = 0; octave < octaves; octave++) {
+        let n = tileNoise(u, v, period << octave, seed + octave * 31);
+        if (ridged) n = 1 - Math.abs(n * 2 - 1);
+        sum += n * amplitude;
+        total += amplitude;
+        amplitude *= 0.5;
+    }
+    return sum / total;
+}
+
+// Distance to the nearest feature point, one point per cell, wrapping every `period` cells
+function tileCells(u: number, v: number, period: number, seed: number): number {
+    const x = u * period;
+    const y = v * period;
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    let nearest = Infinity;
+    for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+            const cx = ix + dx;
+            const cy = iy + dy;
+            const wx = ((cx % period) + period) % period;
+            const wy = ((cy % period) + period) % period;
+            const px = cx + hash(wx, wy, seed);
+            const py = cy + hash(wx, wy, seed + 13);
+            nearest = Math.min(nearest, Math.hypot(px - x, py - y));
+        }
+    }
+    return nearest;
+}
+
+function toByte(value: number): number {
+    return Math.round(Math.min(Math.max(value, 0), 1) * 255);
+}
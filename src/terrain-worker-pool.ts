@@ -0,0 +1,240 @@
+/**
+ * Terrain Worker Pool
+ *
+ * Spreads grid generation over a small pool of module workers. A grid is cut
+ * into row bands; heights are generated first, post-processed on the main
+ * thread, then handed back (with a one-row apron) for colours and normals.
+ */
+
+import { MAX_TEXTURE_LAYERS } from './terrain-splat';
+import { MATERIAL_VALUES_PER_VERTEX } from './terrain-biome-materials';
+import type { FullTerrainParameters, ErosionParams, WaterParams, WaterSystem } from './types';
+import type { TerrainGrid, TerrainGridData, GenerationProgress } from './terrain-sampler';
+import type { TerrainWorkerRequest, TerrainWorkerResponse } from './terrain-worker';
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+type JobRequest = DistributiveOmit<TerrainWorkerRequest, 'jobId'>;
+
+interface PendingJob {
+    request: TerrainWorkerRequest;
+    transfer: Transferable[];
+    onProgress: (fraction: number) => void;
+    resolve: (response: TerrainWorkerResponse) => void;
+    reject: (error: Error) => void;
+}
+
+export class TerrainWorkerPool {
+    private workers: Worker[] = [];
+    private idleWorkers: Worker[] = [];
+    private queue: PendingJob[] = [];
+    private running: Map<number, PendingJob> = new Map();
+    private jobOfWorker: Map<Worker, PendingJob> = new Map();
+    // Workers that have answered at least once (so their script loads)
+    private provenWorkers: Set<Worker> = new Set();
+    private nextJobId = 1;
+
+    constructor(size: number = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))) {
+        for (let i = 0; i < size; i++) this.startWorker();
+        console.log(`👷 Terrain worker pool started with ${size} workers`);
+    }
+
+    private startWorker(): void {
+        const worker = new Worker(new URL('./terrain-worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<TerrainWorkerResponse>) => this.handleMessage(worker, event.data);
+        worker.onerror = (event) => this.handleError(worker, event);
+        this.workers.push(worker);
+        this.idleWorkers.push(worker);
+    }
+
+    static isSupported(): boolean {
+        return typeof Worker !== 'undefined';
+    }
+
+    get size(): number {
+        return this.workers.length;
+    }
+
+    /**
+     * Generate heights, colours and normals for a full grid.
+     * `processHeights` runs on the main thread between the two phases.
+     */
+    async generateGrid(params: FullTerrainParameters, grid: TerrainGrid,
+                       onProgress?: GenerationProgress,
+                       processHeights?: (heights: Float32Array) => void | Promise<void>): Promise<TerrainGridData> {
+        const rows = grid.segments + 1;
+        const row = grid.segments + 1;
+        const bands = this.splitRows(rows);
+
+        // Phase 1: heights
+        const heights = new Float32Array(rows * row);
+        const heightProgress = this.progressTracker(bands, fraction => onProgress?.(0.5 * fraction, 'heights'));
+        await Promise.all(bands.map(async (band, bandIndex) => {
+            const response = await this.run({ type: 'heights', params, grid, zStart: band.start, zEnd: band.end },
+                [], fraction => heightProgress(bandIndex, fraction));
+            if (response.type !== 'heights') throw new Error(`Unexpected worker response: ${response.type}`);
+            heights.set(response.heights, band.start * row);
+        }));
+
+        if (processHeights) await processHeights(heights);
+
+        // Phase 2: colours, normals and quad biomes (bands need the rows just outside them for normals)
+        const colors = new Float32Array(rows * row * 3);
+        const normals = new Float32Array(rows * row * 3);
+        const quadBiomes = new Uint8Array(grid.segments * grid.segments);
+        let splat: Float32Array | null = null;
+        let materials: Float32Array | null = null;
+        const shadeProgress = this.progressTracker(bands, fraction => onProgress?.(0.5 + 0.5 * fraction, 'shading'));
+        await Promise.all(bands.map(async (band, bandIndex) => {
+            const heightsStart = Math.max(0, band.start - 1);
+            const heightsEnd = Math.min(rows, band.end + 1);
+            const bandHeights = heights.slice(heightsStart * row, heightsEnd * row);
+            const response = await this.run({
+                type: 'shade', params, grid, zStart: band.start, zEnd: band.end,
+                heights: bandHeights, heightsStart
+            }, [bandHeights.buffer], fraction => shadeProgress(bandIndex, fraction));
+            if (response.type !== 'shade') throw new Error(`Unexpected worker response: ${response.type}`);
+            colors.set(response.colors, band.start * row * 3);
+            normals.set(response.normals, band.start * row * 3);
+            quadBiomes.set(response.quadBiomes, band.start * grid.segments);
+            if (response.splat) {
+                splat ??= new Float32Array(rows * row * MAX_TEXTURE_LAYERS);
+                splat.set(response.splat, band.start * row * MAX_TEXTURE_LAYERS);
+            }
+            if (response.materials) {
+                materials ??= new Float32Array(rows * row * MATERIAL_VALUES_PER_VERTEX);
+                materials.set(response.materials, band.start * row * MATERIAL_VALUES_PER_VERTEX);
+            }
+        }));
+
+        return { grid, heights, colors, normals, quadBiomes, splat, materials };
+    }
+
+    /**
+     * Erode a full heightmap on one worker. The input array is transferred away;
+     * use the returned one.
+     */
+    async erodeHeights(heights: Float32Array, grid: TerrainGrid, erosion: ErosionParams, seed: number,
+                       onProgress?: (fraction: number) => void): Promise<Float32Array> {
+        const response = await this.run({ type: 'erode', erosion, seed, grid, heights },
+            [heights.buffer], fraction => onProgress?.(fraction));
+        if (response.type !== 'erode') throw new Error(`Unexpected worker response: ${response.type}`);
+        return response.heights;
+    }
+
+    // Oceans, lakes and rivers for a finished heightmap (the array is copied, not transferred)
+    async generateWaterSystem(heights: Float32Array, grid: TerrainGrid, maxHeight: number,
+                              water: WaterParams): Promise<WaterSystem> {
+        const response = await this.run({ type: 'water', water, maxHeight, grid, heights }, [], () => {});
+        if (response.type !== 'water') throw new Error(`Unexpected worker response: ${response.type}`);
+        return response.system;
+    }
+
+    dispose(): void {
+        for (const worker of this.workers) worker.terminate();
+        for (const job of [...this.queue, ...this.running.values()]) {
+            job.reject(new Error('Terrain worker pool disposed'));
+        }
+        this.workers = [];
+        this.idleWorkers = [];
+        this.queue = [];
+        this.running.clear();
+        this.jobOfWorker.clear();
+        this.provenWorkers.clear();
+    }
+
+    // Two bands per worker so a slow band doesn't leave the others idle
+    private splitRows(rows: number): { start: number; end: number }[] {
+        const bandCount = Math.min(rows, this.workers.length * 2);
+        const bands: { start: number; end: number }[] = [];
+        for (let i = 0; i < bandCount; i++) {
+            bands.push({
+                start: Math.floor(i * rows / bandCount),
+                end: Math.floor((i + 1) * rows / bandCount)
+            });
+        }
+        return bands;
+    }
+
+    // Combine per-band progress into one row-weighted fraction
+    private progressTracker(bands: { start: number; end: number }[], report: (fraction: number) => void) {
+        const totalRows = bands[bands.length - 1].end - bands[0].start;
+        const done = bands.map(() => 0);
+        return (bandIndex: number, fraction: number) => {
+            const band = bands[bandIndex];
+            done[bandIndex] = fraction * (band.end - band.start);
+            report(done.reduce((sum, rows) => sum + rows, 0) / totalRows);
+        };
+    }
+
+    private run(request: JobRequest, transfer: Transferable[], onProgress: (fraction: number) => void): Promise<TerrainWorkerResponse> {
+        return new Promise((resolve, reject) => {
+            if (this.workers.length === 0) {
+                reject(new Error('No terrain workers are running'));
+                return;
+            }
+            const jobId = this.nextJobId++;
+            this.queue.push({ request: { ...request, jobId } as TerrainWorkerRequest, transfer, onProgress, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    private dispatch(): void {
+        while (this.idleWorkers.length > 0 && this.queue.length > 0) {
+            const worker = this.idleWorkers.pop()!;
+            const job = this.queue.shift()!;
+            this.running.set(job.request.jobId, job);
+            this.jobOfWorker.set(worker, job);
+            worker.postMessage(job.request, job.transfer);
+        }
+    }
+
+    private handleMessage(worker: Worker, message: TerrainWorkerResponse): void {
+        this.provenWorkers.add(worker);
+        const job = this.running.get(message.jobId);
+        if (!job) return;
+
+        if (message.type === 'progress') {
+            job.onProgress(message.fraction);
+            return;
+        }
+
+        this.running.delete(message.jobId);
+        this.jobOfWorker.delete(worker);
+        this.idleWorkers.push(worker);
+        this.dispatch();
+
+        if (message.type === 'error') {
+            job.reject(new Error(message.message));
+        } else {
+            job.resolve(message);
+        }
+    }
+
+    /**
+     * An uncaught error or a script that fails to load: fail the job the worker
+     * was running and put a fresh worker in its place. A worker that never
+     * answered isn't replaced (its script would fail again); once none are left
+     * the queued jobs fail too.
+     */
+    private handleError(worker: Worker, event: ErrorEvent): void {
+        const reason = event.message || 'the worker script failed to load';
+        console.error('❌ Terrain worker error:', reason);
+        worker.terminate();
+        this.workers = this.workers.filter(other => other !== worker);
+        this.idleWorkers = this.idleWorkers.filter(other => other !== worker);
+
+        const job = this.jobOfWorker.get(worker);
+        this.jobOfWorker.delete(worker);
+        if (job) {
+            this.running.delete(job.request.jobId);
+            job.reject(new Error(`Terrain worker failed: ${reason}`));
+        }
+
+        if (this.provenWorkers.delete(worker)) this.startWorker();
+        if (this.workers.length === 0) {
+            for (const queued of this.queue) queued.reject(new Error('No terrain workers are running'));
+            this.queue = [];
+        }
+        this.dispatch();
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * Terrain Generation Worker
+ *
+ * Runs the heavy grid kernels from terrain-sampler off the UI thread. Each job
+ * covers a band of grid rows and answers with transferable typed arrays.
+ */
+
+import { TerrainSampler, computeHeightRows, computeShadingRows } from './terrain-sampler';
+import type { TerrainGrid } from './terrain-sampler';
+import { MAX_TEXTURE_LAYERS } from './terrain-splat';
+import { MATERIAL_VALUES_PER_VERTEX } from './terrain-biome-materials';
+import { erodeHeightmap } from './terrain-erosion';
+import { generateWaterSystemFromHeights } from './water-system';
+import type { FullTerrainParameters, ErosionParams, WaterParams, WaterSystem } from './types';
+
+export type TerrainWorkerRequest =
+    | {
+        type: 'heights';
+        jobId: number;
+        params: FullTerrainParameters;
+        grid: TerrainGrid;
+        zStart: number;
+        zEnd: number;
+    }
+    | {
+        type: 'shade';
+        jobId: number;
+        params: FullTerrainParameters;
+        grid: TerrainGrid;
+        zStart: number;
+        zEnd: number;
+        heights: Float32Array;
+        heightsStart: number;
+    }
+    | {
+        type: 'erode';
+        jobId: number;
+        erosion: ErosionParams;
+        seed: number;
+        grid: TerrainGrid;
+        heights: Float32Array;   // Full grid - erosion moves material across band boundaries
+    }
+    | {
+        type: 'water';
+        jobId: number;
+        water: WaterParams;
+        maxHeight: number;
+        grid: TerrainGrid;
+        heights: Float32Array;   // Full grid (final, eroded heights)
+    };
+
+export type TerrainWorkerResponse =
+    | { type: 'progress'; jobId: number; fraction: number }
+    | { type: 'heights'; jobId: number; heights: Float32Array }
+    | { type: 'shade'; jobId: number; colors: Float32Array; normals: Float32Array; quadBiomes: Uint8Array; splat: Float32Array | null; materials: Float32Array | null }
+    | { type: 'erode'; jobId: number; heights: Float32Array }
+    | { type: 'water'; jobId: number; system: WaterSystem }
+    | { type: 'error'; jobId: number; message: string };
+
+// Rebuilding noise tables is cheap but not free - keep the sampler for consecutive jobs of one world
+let cachedKey = '';
+let cachedSampler: TerrainSampler | null = null;
+
+function getSampler(params: FullTerrainParameters): TerrainSampler {
+    const key = JSON.stringify(params);
+    if (!cachedSampler || key !== cachedKey) {
+        cachedSampler = new TerrainSampler(params);
+        cachedKey = key;
+    }
+    return cachedSampler;
+}
+
+function post(message: TerrainWorkerResponse, transfer: Transferable[] = []) {
+    (self as unknown as Worker).postMessage(message, transfer);
+}
+
+self.onmessage = (event: MessageEvent<TerrainWorkerRequest>) => {
+    const request = event.data;
+
+    if (request.type === 'erode') {
+        try {
+            let lastReport = 0;
+            erodeHeightmap(request.heights, request.grid, request.erosion, request.seed, fraction => {
+                if (fraction - lastReport >= 0.05 || fraction === 1) {
+                    lastReport = fraction;
+                    post({ type: 'progress', jobId: request.jobId, fraction });
+                }
+            });
+            post({ type: 'erode', jobId: request.jobId, heights: request.heights }, [request.heights.buffer]);
+        } catch (error) {
+            post({ type: 'error', jobId: request.jobId, message: error instanceof Error ? error.message : String(error) });
+        }
+        return;
+    }
+
+    if (request.type === 'water') {
+        try {
+            const system = generateWaterSystemFromHeights(request.heights, request.grid, request.maxHeight, request.water);
+            post({ type: 'water', jobId: request.jobId, system });
+        } catch (error) {
+            post({ type: 'error', jobId: request.jobId, message: error instanceof Error ? error.message : String(error) });
+        }
+        return;
+    }
+
+    const rows = request.zEnd - request.zStart;
+    const row = request.grid.segments + 1;
+
+    // Report roughly every 5% of the band
+    const progressEvery = Math.max(1, Math.floor(rows / 20));
+    const onRow = (rowsDone: number) => {
+        if (rowsDone % progressEvery === 0 || rowsDone === rows) {
+            post({ type: 'progress', jobId: request.jobId, fraction: rowsDone / rows });
+        }
+    };
+
+    try {
+        const sampler = getSampler(request.params);
+
+        if (request.type === 'heights') {
+            const heights = new Float32Array(rows * row);
+            computeHeightRows(sampler, request.grid, request.zStart, request.zEnd, heights, onRow);
+            post({ type: 'heights', jobId: request.jobId, heights }, [heights.buffer]);
+        } else {
+            const quadRows = Math.max(0, Math.min(request.zEnd, request.grid.segments) - request.zStart);
+            const colors = new Float32Array(rows * row * 3);
+            const normals = new Float32Array(rows * row * 3);
+            const quadBiomes = new Uint8Array(quadRows * request.grid.segments);
+            const splat = sampler.textureLayers.length > 0 ? new Float32Array(rows * row * MAX_TEXTURE_LAYERS) : null;
+            const materials = sampler.materialSlots.length > 1 ? new Float32Array(rows * row * MATERIAL_VALUES_PER_VERTEX) : null;
+            computeShadingRows(sampler, request.grid, request.zStart, request.zEnd,
+                request.heights, request.heightsStart, colors, normals, quadBiomes, splat, materials, onRow);
+            const transfer: Transferable[] = [colors.buffer, normals.buffer, quadBiomes.buffer];
+            if (splat) transfer.push(splat.buffer);
+            if (materials) transfer.push(materials.buffer);
+            post({ type: 'shade', jobId: request.jobId, colors, normals, quadBiomes, splat, materials }, transfer);
+        }
+    } catch (error) {
+        post({ type: 'error', jobId: request.jobId, message: error instanceof Error ? error.message : String(error) });
+    }
+};
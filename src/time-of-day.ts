@@ -0,0 +1,100 @@
+/**
+ * Time of Day
+ *
+ * Turns an hour (0-24) into sun and moon directions plus the light and sky
+ * colours for that moment. A world's lighting and skybox parameters describe
+ * its midday look: dawn and dusk warm them towards sunset colours, and night
+ * fades them to moonlight.
+ */
+
+import * as THREE from 'three';
+import type { FullTerrainParameters } from './types';
+
+type LightingParams = FullTerrainParameters['lighting'];
+type SkyboxParams = FullTerrainParameters['skybox'];
+
+export interface SkyState {
+    sunDirection: THREE.Vector3;     // Unit vectors towards the sun and moon
+    moonDirection: THREE.Vector3;
+    sunColor: THREE.Color;           // Colour of the sun disc and its glow
+    ambient: { color: THREE.Color; intensity: number };
+    directional: { color: THREE.Color; intensity: number; direction: THREE.Vector3 }; // Sun by day, moon by night
+    horizonColor: THREE.Color;
+    zenithColor: THREE.Color;
+    atmosphereColor: THREE.Color;
+}
+
+export const DAY_LENGTH_SECONDS = 600;  // One full day while the timeline is playing
+
+const SUN_TILT = 35 * Math.PI / 180;   // How far the sun's path leans away from straight overhead
+const MOONLIGHT_STRENGTH = 0.25;       // Moonlight relative to the world's sunlight
+const NIGHT_AMBIENT_STRENGTH = 0.4;
+
+const SUNSET_LIGHT = new THREE.Color(1.0, 0.55, 0.3);
+const SUNSET_SKY = new THREE.Color(0.98, 0.5, 0.3);
+const MOON_LIGHT = new THREE.Color(0.6, 0.7, 1.0);
+const NIGHT_AMBIENT = new THREE.Color(0.15, 0.2, 0.4);
+const NIGHT_HORIZON = new THREE.Color(0.05, 0.07, 0.15);
+const NIGHT_ZENITH = new THREE.Color(0.01, 0.015, 0.05);
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+    return t * t * (3 - 2 * t);
+}
+
+// Wrap any hour into [0, 24)
+export function normalizeHour(hour: number): number {
+    return ((hour % 24) + 24) % 24;
+}
+
+export function formatHour(hour: number): string {
+    const minutes = Math.floor(normalizeHour(hour) * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Sun, moon, light and sky for `hour`. The sun rises at 6:00 and sets at 18:00,
+ * and its midday position faces the world's directional light.
+ */
+export function computeSkyState(hour: number, lighting: LightingParams, skybox: SkyboxParams): SkyState {
+    // 0 at sunrise, PI/2 at noon, PI at sunset
+    const angle = (normalizeHour(hour) - 6) / 24 * Math.PI * 2;
+    const position = lighting.directional.position;
+    const azimuth = Math.atan2(position.x, position.z);
+
+    const sunDirection = new THREE.Vector3(Math.cos(angle), Math.sin(angle) * Math.cos(SUN_TILT), Math.sin(angle) * Math.sin(SUN_TILT))
+        .applyAxisAngle(new THREE.Vector3(0, 1, 0), azimuth);
+    const moonDirection = sunDirection.clone().negate();
+    const elevation = sunDirection.y;
+
+    // 1 in full daylight, 0 at night; twilight peaks as the sun crosses the horizon
+    const day = smoothstep(-0.1, 0.2, elevation);
+    const twilight = 1 - smoothstep(0, 0.35, Math.abs(elevation + 0.03));
+
+    const dayLight = new THREE.Color(lighting.directional.color.r, lighting.directional.color.g, lighting.directional.color.b);
+    const sunColor = dayLight.clone().lerp(SUNSET_LIGHT, twilight);
+
+    // Whichever body is up lights the world; both fade out near the horizon so the swap is hidden
+    const sunUp = elevation >= 0;
+    const directional = sunUp
+        ? { color: sunColor.clone(), intensity: lighting.directional.intensity * smoothstep(0, 0.15, elevation), direction: sunDirection.clone() }
+        : { color: MOON_LIGHT.clone(), intensity: lighting.directional.intensity * MOONLIGHT_STRENGTH * smoothstep(0, 0.15, -elevation), direction: moonDirection.clone() };
+
+    const dayAmbient = new THREE.Color(lighting.ambient.color.r, lighting.ambient.color.g, lighting.ambient.color.b);
+    const ambient = {
+        color: NIGHT_AMBIENT.clone().lerp(dayAmbient, day),
+        intensity: lighting.ambient.intensity * (NIGHT_AMBIENT_STRENGTH + (1 - NIGHT_AMBIENT_STRENGTH) * day)
+    };
+
+    const toColor = (color: { r: number; g: number; b: number }) => new THREE.Color(color.r, color.g, color.b);
+    return {
+        sunDirection,
+        moonDirection,
+        sunColor,
+        ambient,
+        directional,
+        horizonColor: NIGHT_HORIZON.clone().lerp(toColor(skybox.horizonColor), day).lerp(SUNSET_SKY, twilight * 0.7),
+        zenithColor: NIGHT_ZENITH.clone().lerp(toColor(skybox.zenithColor), day),
+        atmosphereColor: NIGHT_HORIZON.clone().lerp(toColor(skybox.atmosphereColor), day).lerp(SUNSET_SKY, twilight * 0.5)
+    };
+}
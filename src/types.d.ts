@@ -31,14 +31,69 @@ export interface MaterialProperties {
     isWater?: boolean;           // Special water handling
 }
 
-export interface BiomeMaterialClassification {
-    materialType: string;        // 'standard' | 'crystal' | 'glowing' | 'water'
-    priority: number;            // Higher priority wins in conflicts (0-10)
-    coverage: number;            // How much of the biome uses this material (0-1)
+export type TerrainTexturePreset = 'grass' | 'rock' | 'sand' | 'snow' | 'dirt' | 'gravel' | 'mud' | 'ash' | 'moss' | 'ice';
+
+export interface TerrainTextureLayer {
+    preset?: TerrainTexturePreset;   // Procedural texture (default 'rock')
+    albedo?: string;                 // Local image files replacing the procedural maps (any size, repeated)
+    normal?: string;
+    roughness?: string;              // Greyscale, read from the red channel
+    tint?: RGBColor;                 // Multiplies the albedo (default white)
+    scale?: number;                  // World units per texture repeat (default 8)
+    height?: [number, number];       // Part of the biome's height range where the layer shows, 0-1 (default all)
+    slope?: [number, number];        // Slopes where the layer shows, degrees (default 0-90)
+}
+
+// Paints over a biome's colour ramp (and texture layers) wherever its conditions hold.
+// Every condition given must hold; edges fade over `blend` and wander by `dither`.
+export interface ColorRule {
+    color: RGBColor;
+    slope?: [number, number];        // Degrees (e.g. [35, 90] for cliffs)
+    altitude?: [number, number];     // World height
+    nearWater?: number;              // Within this many units above or below the water level
+    blend?: number;                  // Fade width at the edges, in the condition's units (default 5 degrees / 10 units)
+    dither?: number;                 // Noise that breaks up the edges, in the same units (0 = clean line)
+    strength?: number;               // 0-1 (default 1)
+    texture?: TerrainTexturePreset;  // Texture the rule splats where it applies (default: the rule's colour only)
+}
+
+// Noise algorithm of a layer: gradient noises (perlin, simplex, opensimplex2), value noise or Worley cells
+export type NoiseType = 'perlin' | 'simplex' | 'opensimplex2' | 'value' | 'worley';
+
+// Which Worley distance a layer uses: nearest point, second nearest, or their difference (cell borders)
+export type CellularOutput = 'f1' | 'f2' | 'f2-f1';
+
+export interface CellularParams {
+    output?: CellularOutput;         // Default 'f1'
+    jitter?: number;                 // 0 (points on a grid) to 1 (fully random, default)
+}
+
+// How a layer sums its octaves: fbm (rounded, default), ridged (sharp crests), billow (puffy hills),
+// hybrid (smooth valleys, rough peaks) or heterogeneous (flat lowlands, broken uplands)
+export type FractalType = 'fbm' | 'ridged' | 'billow' | 'hybrid' | 'heterogeneous';
+
+// Offsets a layer's sample positions by a second noise field, bending its features into swirls and folds
+export interface DomainWarpParams {
+    strength: number;                // World units the positions move by at most
+    scale?: number;                  // Size of the warp field (default: the layer's scale)
+    octaves?: number;                // Default 2
+}
+
+// Height profile operators for a biome's elevation, applied in this order after the noise
+export interface TerrainShapeParams {
+    curve?: [number, number][];      // (in, out) pairs over 0-1 of the biome's height range, sorted by in; a steep middle makes cliff bands
+    terrace?: { step: number; sharpness?: number };      // Steps every `step` world units; sharpness 0 ramps - 1 flat treads (default 0.5)
+    plateau?: { height: number; smoothness?: number };   // Flat tops at this world height, rim rounded over `smoothness` units
+    canyon?: { depth: number; width?: number; scale?: number };  // Winding canyons `depth` units deep; width 0.01-0.1 (default 0.03), scale of their pattern (default: the biome's scale)
 }
 
 export interface NoiseParams {
-    seed?: number;
+    seed?: number;                   // Salt mixed into the world seed for this layer
+    type?: NoiseType;                // Default 'perlin'
+    cellular?: CellularParams;       // Used when type is 'worley'
+    fractal?: FractalType;           // Default 'fbm' ('ridged' for terrain.mountains)
+    warp?: DomainWarpParams;
+    shape?: TerrainShapeParams;      // Biome terrainParams only
     scale: number;
     octaves: number;
     persistence?: number;
@@ -47,21 +102,214 @@ export interface NoiseParams {
     baseHeight?: number;
 }
 
+// World-wide height layers added on top of the biome heights.
+// Layer amplitudes are fractions of global.maxHeight.
+export interface TerrainLayers {
+    base: NoiseParams;               // Broad rolling shape of the land
+    mountains: NoiseParams;          // Ridged ranges, strongest where the base layer is high
+    details: NoiseParams;            // Small bumps over everything
+}
+
+// Climate fields (amplitude/baseHeight unused) - sampled in 0-1
+export interface EnvironmentLayers {
+    temperature: NoiseParams;
+    moisture: NoiseParams;
+}
+
+// Where a biome lives in climate space (all values 0-1, missing axes span the full range)
+export interface BiomeClimateRange {
+    temperature?: [number, number];
+    moisture?: [number, number];
+    elevation?: [number, number];   // From the terrain layers: 0 = lowest, 0.5 = neutral, 1 = highest
+}
+
 export interface BiomeProfile {
     name: string;
     controlRange: [number, number];
+    climate?: BiomeClimateRange;     // Used when biomeControl.mode is 'climate'
+    transitionWidth?: number;        // Width of the blend zone at this biome's edges (default 0.1)
     terrainParams: NoiseParams;
     colorRamp: ColorStop[];
     material?: MaterialProperties;   // Advanced material properties
+    fog?: FogParams;                 // Fog while the camera is in this biome (unset fields use the world fog)
+    textures?: TerrainTextureLayer[]; // Surface textures splatted over the vertex colours
+    colorRules?: ColorRule[];        // Applied in order over the colour ramp (later rules paint on top)
 }
 
 export interface BiomeControlParams {
-    seed: number;
+    seed: number;                    // Salt mixed into the world seed
     scale: number;
     octaves: number;
+    type?: NoiseType;                // Default 'perlin'
+    cellular?: CellularParams;       // Used when type is 'worley'
+    fractal?: FractalType;           // Default 'fbm'
+    warp?: DomainWarpParams;
+    mode?: 'range' | 'climate';      // 'range' (default): 1D controlRange lookup, 'climate': temperature/moisture/elevation
+}
+
+export interface ChunkStreamingParams {
+    enabled: boolean;
+    chunkSize: number;           // World units covered by one chunk edge
+    chunkSegments: number;       // Grid resolution of a single chunk (power of two, so LOD can halve it)
+    viewDistance: number;        // Radius around the camera that is kept loaded
+    maxChunksPerFrame?: number;  // Generation budget per frame (default 2)
+}
+
+export interface TerrainLODParams {
+    enabled: boolean;
+    levels: number;              // Number of detail levels (level 0 = full patch resolution)
+    levelDistance: number;       // Camera distance covered by each level before dropping detail
+    patchSize?: number;          // Patch size for bounded worlds (chunk size is used when streaming)
+    patchSegments?: number;      // Patch resolution for bounded worlds (must be a power of two multiple)
+}
+
+export interface ErosionParams {
+    enabled: boolean;
+    iterations: number;          // Raindrops simulated for hydraulic erosion (scale with grid size)
+    rainAmount: number;          // Starting water per raindrop (more water carries more sediment)
+    sedimentCapacity: number;    // How much sediment flowing water can carry per unit of speed and slope
+    erosionRate?: number;        // 0-1, how quickly water picks up sediment (default 0.3)
+    depositionRate?: number;     // 0-1, how quickly excess sediment settles (default 0.3)
+    evaporationRate?: number;    // 0-1, water lost per step (default 0.01)
+    thermalIterations?: number;  // Talus passes over the whole grid (default 0)
+    talusAngle?: number;         // Steepest stable slope in degrees for thermal erosion (default 35)
+}
+
+export interface ShadowParams {
+    enabled: boolean;
+    cascades?: number;               // Shadow maps the view is split into, 1-4 (default 3)
+    mapSize?: number;                // Resolution of each cascade's map (default 2048)
+    maxDistance?: number;            // How far from the camera shadows reach, world units (default 1500)
+}
+
+export interface ColorGradingParams {
+    saturation?: number;             // 0 = greyscale, 1 = unchanged, 2 = vivid
+    contrast?: number;               // 1 = unchanged
+    temperature?: number;            // -1 (cool blue) to 1 (warm orange)
+    shadowTint?: RGBColor;           // Hue pushed into the shadows (white = none)
+    highlightTint?: RGBColor;        // Hue pushed into the highlights (white = none)
+    intensity?: number;              // 0-1 blend of the grade over the image (default 1)
+}
+
+export interface PostProcessingParams {
+    enabled: boolean;
+    toneMapping?: 'aces' | 'agx' | 'neutral' | 'none'; // HDR to screen curve (default 'aces')
+    exposure?: number;               // Brightness before tone mapping (default 1)
+    bloom?: { enabled: boolean; strength?: number; radius?: number; threshold?: number; }; // Glow above threshold (HDR brightness)
+    ssao?: { enabled: boolean; radius?: number; };   // Ambient occlusion, radius in world units
+    colorGrading?: ColorGradingParams;
+}
+
+export interface FogParams {
+    color?: RGBColor;                // Defaults to the skybox horizon blended with its atmosphere colour
+    density?: number;                // Fog per world unit at baseHeight (default 0.0001, more with a thick atmosphere)
+    heightFalloff?: number;          // How quickly fog thins with altitude, per world unit (default 0.002)
+    baseHeight?: number;             // World height where the fog has its full density (default 0)
+}
+
+export interface WaterParams {
+    enabled: boolean;
+    hasOcean?: boolean;
+    oceanLevel?: number;         // World height of the sea surface
+    riverDensity?: number;       // 0-1, lower values keep only the biggest rivers
+    lakeDensity?: number;        // 0-1, share of terrain basins that fill with lakes
+    waterfallThreshold?: number; // Height drop (world units) between river steps that forms a waterfall
+    precipitation?: number;      // 0-1, scales river flow
+    resolution?: number;         // Cells per side of the water analysis grid (default 256)
+    color?: RGBColor;            // Water tint
+    carve?: boolean;             // Cut river channels and lake beds into the terrain (default true)
+    riverDepth?: number;         // Channel depth of the biggest river, world units (default 6)
+    riverWidth?: number;         // Channel width of the biggest river, world units (default 3 water cells)
+    bankWidth?: number;          // Width of the smoothed banks either side (default riverWidth)
+    sedimentColor?: RGBColor;    // Tint of river and lake beds
+}
+
+// One cell of the water analysis grid
+export interface WaterFlowNode {
+    x: number;
+    z: number;
+    height: number;
+    waterLevel: number;
+    flowRate: number;            // Accumulated upstream cells (scaled by precipitation)
+    flowDirection: { x: number; z: number; };
+    isSource: boolean;
+    isOutlet: boolean;
+}
+
+// A body of standing water
+export interface WaterPool {
+    id: number;
+    type: 'ocean' | 'lake';
+    boundingBox: { minX: number; maxX: number; minZ: number; maxZ: number; };
+    waterLevel: number;
+    volume: number;
+    cells?: number[];            // Flooded grid cells (row * resolution + column), lakes only
+    outlets: number[];
+    inlets: number[];
+}
+
+export interface RiverSegment {
+    points: { x: number; z: number; height: number; width: number; }[];
+    flowDirection: number;       // Overall heading in radians
+    avgFlowRate: number;
+    connectsTo: number[];
+}
+
+export interface Waterfall {
+    startPoint: { x: number; z: number; height: number; };
+    endPoint: { x: number; z: number; height: number; };
+    width: number;
+    flowRate: number;
+}
+
+export interface WaterSystem {
+    globalSeaLevel: number;      // -Infinity when there is no ocean
+    pools: WaterPool[];
+    rivers: RiverSegment[];
+    waterfalls: Waterfall[];
+    flowField: WaterFlowNode[][];
+    precipitation: number;
+    evaporation: number;
+}
+
+/**
+ * Node kinds of a height graph and the inputs they read (in order):
+ * - noise: noise.baseHeight + fractal * noise.amplitude (amplitude defaults to 1), no inputs
+ * - constant: value, no inputs
+ * - biomes: the blended biome elevation; layers: the world-wide terrain layers
+ * - biomeMask: 0-1 weight of the named biome at the sample
+ * - add / multiply / max / min: any number of inputs
+ * - blend: [a, b, mask], a where the mask is 0 and b where it is 1
+ * - curve / remap / terrace / clamp: [input]
+ */
+export type HeightNodeType = 'noise' | 'constant' | 'biomes' | 'layers' | 'biomeMask'
+    | 'add' | 'multiply' | 'max' | 'min' | 'blend' | 'curve' | 'remap' | 'terrace' | 'clamp';
+
+export interface HeightNode {
+    id: string;
+    type: HeightNodeType;
+    inputs?: string[];               // Ids of the nodes feeding this one
+    noise?: NoiseParams;             // noise
+    value?: number;                  // constant
+    biome?: string;                  // biomeMask: biome name
+    points?: [number, number][];     // curve: (input, output) pairs, linear in between and flat past the ends
+    from?: [number, number];         // remap: input range...
+    to?: [number, number];           // ...mapped linearly onto this one
+    step?: number;                   // terrace: height of one step
+    sharpness?: number;              // terrace: 0 (smooth ramps) to 1 (flat treads, vertical risers), default 0.5
+    min?: number;                    // clamp
+    max?: number;
+    position?: [number, number];     // Editor layout only
+}
+
+// A height recipe: the world height at every sample is the value of the output node
+export interface HeightGraph {
+    nodes: HeightNode[];
+    output: string;
 }
 
 export interface FullTerrainParameters {
+    seed: number;                    // World seed - every noise layer is derived from it
     global: {
         width: number;
         depth: number;
@@ -70,15 +318,31 @@ export interface FullTerrainParameters {
         offset: number;
     };
     skybox: {
+        model?: 'gradient' | 'scattering'; // Colour gradient (default) or Rayleigh/Mie atmosphere
         horizonColor: RGBColor;
         zenithColor: RGBColor;
         atmosphereColor: RGBColor;
         atmosphereStrength: number;
+        planetRadius?: number;       // Scattering only: km (default 6371)
+        turbidity?: number;          // Scattering only: haze, 1 clear - 10+ murky (default 2)
+        ozone?: number;              // Scattering only: ozone layer relative to Earth's (default 1)
+        sunIntensity?: number;       // Scattering only (default 20)
     };
     lighting: {
         ambient: { color: RGBColor; intensity: number; };
         directional: { color: RGBColor; intensity: number; position: { x: number; y: number; z: number; }; };
     };
+    timeOfDay?: number;              // Hour 0-24 for the sun/moon cycle; lighting and skybox are then the midday look
+    terrain?: TerrainLayers;
+    heightGraph?: HeightGraph;       // Replaces the default biomes + terrain layers height when set
+    environment?: EnvironmentLayers;
     biomeControl: BiomeControlParams;
     biomes: BiomeProfile[];
+    chunks?: ChunkStreamingParams;   // Infinite streaming terrain around the camera
+    lod?: TerrainLODParams;          // Distance-based geomipmapping of terrain patches
+    erosion?: ErosionParams;         // Hydraulic + thermal erosion of single-grid worlds
+    water?: WaterParams;             // Oceans, lakes, rivers and waterfalls
+    shadows?: ShadowParams;          // Cascaded shadow maps (on by default)
+    fog?: FogParams;                 // Exponential height fog (derived from the skybox when omitted)
+    postProcessing?: PostProcessingParams; // HDR tone mapping, bloom, SSAO and colour grading (off by default)
 }
\ No newline at end of file
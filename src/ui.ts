@@ -2,10 +2,13 @@
 import { state } from './state';
 import { TerrainGenerator } from './terrain';
 import * as THREE from 'three';
-import { updateSkybox, updateLighting } from './renderer';
+import { updateSkybox, updateLighting, setTimeOfDay, updateShadows, updatePostProcessing } from './renderer';
+import { formatHour } from './time-of-day';
 
 import { sampleTerrainParameters } from './sample-terrain-parameters';
 import { generateTerrainParameters } from './api';
+import { randomSeed } from './random';
+import { HeightGraphEditor } from './height-graph-editor';
 
 export function setupUI(terrainGenerator: TerrainGenerator, scene: THREE.Scene) {
     const uiContainer = document.getElementById('ui');
@@ -24,6 +27,25 @@ export function setupUI(terrainGenerator: TerrainGenerator, scene: THREE.Scene)
     });
     uiContainer.appendChild(devModeButton);
 
+    // Height graph editor: applying rebuilds the current world with the edited graph
+    const heightGraphEditor = new HeightGraphEditor(async graph => {
+        const params = { ...terrainGenerator.terrainParams };
+        if (graph) params.heightGraph = graph;
+        else delete params.heightGraph;
+        const statusDiv = document.getElementById('status');
+        try {
+            const built = await regenerateTerrain(terrainGenerator, scene, params);
+            if (built && statusDiv) statusDiv.textContent = graph ? 'Height graph applied.' : 'Height graph removed.';
+        } catch (error) {
+            console.error('Error generating terrain:', error);
+            if (statusDiv) statusDiv.textContent = 'Generation failed.';
+        }
+    });
+    const heightGraphButton = createButton('Height Graph', () => {
+        heightGraphEditor.toggle(terrainGenerator.terrainParams.heightGraph, terrainGenerator.biomes.map(biome => biome.name));
+    });
+    uiContainer.appendChild(heightGraphButton);
+
     // Get references to buttons from index.html
     const cameraModeButton = document.getElementById('cameraMode') as HTMLButtonElement;
     const playerModeButton = document.getElementById('playerMode') as HTMLButtonElement;
@@ -35,7 +57,16 @@ export function setupUI(terrainGenerator: TerrainGenerator, scene: THREE.Scene)
     // Event Listeners for buttons from index.html
     cameraModeButton.addEventListener('click', () => setControlMode('camera', terrainGenerator));
     playerModeButton.addEventListener('click', () => setControlMode('player', terrainGenerator));
-    regenerateButton.addEventListener('click', () => regenerateTerrain(terrainGenerator, scene, sampleTerrainParameters));
+    // Same parameters, new world seed (the Default button keeps the fixed sample seed)
+    regenerateButton.addEventListener('click', async () => {
+        try {
+            await regenerateTerrain(terrainGenerator, scene, { ...sampleTerrainParameters, seed: randomSeed() });
+        } catch (error) {
+            console.error('Error generating terrain:', error);
+            const statusDiv = document.getElementById('status');
+            if (statusDiv) statusDiv.textContent = 'Generation failed.';
+        }
+    });
 
     generateButton.addEventListener('click', async () => {
         const prompt = promptInput.value;
@@ -46,8 +77,8 @@ export function setupUI(terrainGenerator: TerrainGenerator, scene: THREE.Scene)
             generateButton.classList.add('loading');
             try {
                 const generatedParams = await generateTerrainParameters(prompt);
-                regenerateTerrain(terrainGenerator, scene, generatedParams);
-                if (statusDiv) statusDiv.textContent = 'Generated!';
+                const built = await regenerateTerrain(terrainGenerator, scene, generatedParams);
+                if (built && statusDiv) statusDiv.textContent = 'Generated!';
             } catch (error) {
                 console.error('Error generating terrain:', error);
                 if (statusDiv) statusDiv.textContent = 'Generation failed.';
@@ -58,10 +89,17 @@ export function setupUI(terrainGenerator: TerrainGenerator, scene: THREE.Scene)
         }
     });
 
-    defaultButton.addEventListener('click', () => {
-        regenerateTerrain(terrainGenerator, scene, sampleTerrainParameters);
+    setupTimeline();
+
+    defaultButton.addEventListener('click', async () => {
         const statusDiv = document.getElementById('status');
-        if (statusDiv) statusDiv.textContent = 'Default terrain loaded.';
+        try {
+            const built = await regenerateTerrain(terrainGenerator, scene, sampleTerrainParameters);
+            if (built && statusDiv) statusDiv.textContent = 'Default terrain loaded.';
+        } catch (error) {
+            console.error('Error generating terrain:', error);
+            if (statusDiv) statusDiv.textContent = 'Generation failed.';
+        }
     });
 
     // Initial state for control mode buttons
@@ -87,6 +125,44 @@ export function setupUI(terrainGenerator: TerrainGenerator, scene: THREE.Scene)
 }
 
 
+// Time-of-day slider and play button; the slider follows the clock while the day is playing
+let timelineTimer: number | null = null;
+
+function setupTimeline() {
+    const slider = document.getElementById('timeOfDay') as HTMLInputElement | null;
+    const playButton = document.getElementById('playTime') as HTMLButtonElement | null;
+    if (!slider || !playButton) return;
+
+    slider.addEventListener('input', () => {
+        setTimeOfDay(parseFloat(slider.value));
+        syncTimeline();
+    });
+
+    playButton.addEventListener('click', () => {
+        if (state.timeOfDay === null) setTimeOfDay(parseFloat(slider.value));
+        state.dayCycleRunning = !state.dayCycleRunning;
+        syncTimeline();
+    });
+
+    syncTimeline();
+}
+
+function syncTimeline() {
+    const slider = document.getElementById('timeOfDay') as HTMLInputElement | null;
+    const label = document.getElementById('timeLabel');
+    const playButton = document.getElementById('playTime');
+    if (slider && state.timeOfDay !== null) slider.value = String(state.timeOfDay);
+    if (label) label.textContent = state.timeOfDay === null ? '--:--' : formatHour(state.timeOfDay);
+    if (playButton) playButton.textContent = state.dayCycleRunning ? 'Pause' : 'Play';
+
+    if (state.dayCycleRunning && timelineTimer === null) {
+        timelineTimer = window.setInterval(syncTimeline, 250);
+    } else if (!state.dayCycleRunning && timelineTimer !== null) {
+        window.clearInterval(timelineTimer);
+        timelineTimer = null;
+    }
+}
+
 function setControlMode(mode: 'camera' | 'player', terrainGenerator: TerrainGenerator) {
     state.controlMode = mode;
     if (mode === 'player') {
@@ -101,36 +177,54 @@ function setControlMode(mode: 'camera' | 'player', terrainGenerator: TerrainGene
     }
 }
 
-function regenerateTerrain(terrainGenerator: TerrainGenerator, scene: THREE.Scene, params: any) {
+// Mirror worker generation progress into the #status element
+export function reportGenerationProgress(fraction: number, stage: string) {
+    const statusDiv = document.getElementById('status');
+    if (statusDiv) statusDiv.textContent = `Generating terrain (${stage})... ${Math.round(fraction * 100)}%`;
+}
+
+// Resolves to false when a newer regeneration superseded this one
+async function regenerateTerrain(terrainGenerator: TerrainGenerator, scene: THREE.Scene, params: any): Promise<boolean> {
+    // Generate new terrain off the main thread; the old terrain stays visible meanwhile
+    const newTerrain = await terrainGenerator.regenerateAsync(params, reportGenerationProgress);
+    if (!newTerrain) return false;
+
     // Remove old terrain
     const terrain = scene.getObjectByName('terrain');
     if (terrain) {
         scene.remove(terrain);
-        // Properly dispose of geometry and materials to prevent memory leaks
-        if (terrain instanceof THREE.Mesh) {
-            terrain.geometry.dispose();
-            if (Array.isArray(terrain.material)) {
-                terrain.material.forEach(material => material.dispose());
-            } else {
-                terrain.material.dispose();
+        // Properly dispose of geometry and materials to prevent memory leaks (including water meshes)
+        terrain.traverse(object => {
+            if (object instanceof THREE.Mesh) {
+                object.geometry.dispose();
+                if (Array.isArray(object.material)) {
+                    object.material.forEach(material => material.dispose());
+                } else {
+                    object.material.dispose();
+                }
             }
-        }
+        });
     }
 
-    // Generate new terrain
-    const newTerrain = terrainGenerator.regenerate(params);
     newTerrain.name = 'terrain';
     scene.add(newTerrain);
     
     // Update skybox and lighting if params are provided
     if (params) {
         if (params.skybox) {
-            updateSkybox(params.skybox);
+            updateSkybox(params.skybox, params.fog);
             console.log('Updated skybox with:', params.skybox);
         }
         if (params.lighting) {
             updateLighting(params.lighting);
             console.log('Updated lighting with:', params.lighting);
         }
+        // Each world picks its own look; a missing block means the defaults (shadows on, post-processing off)
+        updateShadows(params.shadows);
+        updatePostProcessing(params.postProcessing);
+        // Worlds without a time are hand-lit: stop any timeline left over from the previous world
+        setTimeOfDay(params.timeOfDay ?? null);
+        syncTimeline();
     }
+    return true;
 }
@@ -0,0 +1,155 @@
+/**
+ * Water Carving
+ *
+ * Feeds a simulated WaterSystem back into the terrain heightmap:
+ * - Rivers cut channels whose width and depth grow with the accumulated flow,
+ *   with smoothstep banks blending into the untouched land.
+ * - Lakes get any terrain left above their surface (the water grid is coarser
+ *   than the terrain) pushed below it.
+ * The river paths are updated to match the carved channels so the water
+ * meshes sit inside them, and a bed mask is returned for sediment colouring.
+ *
+ * Pure and THREE-free so it runs inside generation workers.
+ */
+
+import type { WaterSystem, WaterParams, RGBColor } from './types';
+import type { TerrainGrid } from './terrain-sampler';
+
+export const DEFAULT_SEDIMENT_COLOR: RGBColor = { r: 0.45, g: 0.4, b: 0.3 };
+
+// How far bed colours move towards the sediment colour (some of the biome colour shows through)
+const SEDIMENT_STRENGTH = 0.85;
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+    const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * Carve rivers and lake beds into `heights` ((segments + 1)^2, row-major by z)
+ * in place. Returns the bed mask (0-1 per vertex, 1 = river or lake bed).
+ */
+export function carveWaterChannels(heights: Float32Array, grid: TerrainGrid, system: WaterSystem,
+                                   params: WaterParams): Float32Array {
+    const row = grid.segments + 1;
+    const stepX = grid.width / grid.segments;
+    const stepZ = grid.depth / grid.segments;
+    const bedMask = new Float32Array(heights.length);
+
+    const field = system.flowField;
+    const resolution = field.length;
+    if (resolution < 2) return bedMask;
+    const cellSize = field[0][1].x - field[0][0].x;
+
+    const maxDepth = params.riverDepth ?? 6;
+    const maxWidth = params.riverWidth ?? cellSize * 3;
+    const bankWidth = params.bankWidth ?? maxWidth;
+
+    // Nearest water analysis cell for a world position
+    const cellAt = (x: number, z: number) => {
+        const i = Math.min(Math.max(Math.round((z + grid.depth / 2) / cellSize), 0), resolution - 1);
+        const j = Math.min(Math.max(Math.round((x + grid.width / 2) / cellSize), 0), resolution - 1);
+        return field[i][j];
+    };
+
+    let maxFlow = 0;
+    for (const river of system.rivers) {
+        for (const point of river.points) maxFlow = Math.max(maxFlow, cellAt(point.x, point.z).flowRate);
+    }
+
+    for (const river of system.rivers) {
+        const points = river.points;
+        if (points.length < 2) continue;
+
+        // Channel shape per point: water never flows uphill, and bigger rivers are wider and deeper
+        const beds: number[] = [];
+        const halfWidths: number[] = [];
+        let surface = Infinity;
+        for (const point of points) {
+            surface = Math.min(surface, point.height);
+            const flow = maxFlow > 0 ? Math.sqrt(cellAt(point.x, point.z).flowRate / maxFlow) : 1;
+            const size = 0.3 + 0.7 * Math.min(flow, 1);
+            const depth = maxDepth * size;
+            const halfWidth = Math.max(maxWidth * size, stepX * 1.5) / 2;
+
+            beds.push(surface - depth);
+            halfWidths.push(halfWidth);
+
+            // The ribbon follows the channel: water surface a little below the old ground
+            point.height = surface - depth * 0.35;
+            point.width = halfWidth * 2;
+        }
+
+        for (let s = 0; s < points.length - 1; s++) {
+            const a = points[s], b = points[s + 1];
+            const reach = Math.max(halfWidths[s], halfWidths[s + 1]) + bankWidth;
+
+            const x0 = Math.max(0, Math.floor((Math.min(a.x, b.x) - reach + grid.width / 2) / stepX));
+            const x1 = Math.min(grid.segments, Math.ceil((Math.max(a.x, b.x) + reach + grid.width / 2) / stepX));
+            const z0 = Math.max(0, Math.floor((Math.min(a.z, b.z) - reach + grid.depth / 2) / stepZ));
+            const z1 = Math.min(grid.segments, Math.ceil((Math.max(a.z, b.z) + reach + grid.depth / 2) / stepZ));
+
+            const sx = b.x - a.x, sz = b.z - a.z;
+            const lengthSq = sx * sx + sz * sz || 1;
+
+            for (let z = z0; z <= z1; z++) {
+                const worldZ = z * stepZ - grid.depth / 2;
+                for (let x = x0; x <= x1; x++) {
+                    const worldX = x * stepX - grid.width / 2;
+
+                    // Closest point on the segment
+                    const t = Math.min(Math.max(((worldX - a.x) * sx + (worldZ - a.z) * sz) / lengthSq, 0), 1);
+                    const dx = worldX - (a.x + sx * t), dz = worldZ - (a.z + sz * t);
+                    const distance = Math.sqrt(dx * dx + dz * dz);
+
+                    const halfWidth = halfWidths[s] + (halfWidths[s + 1] - halfWidths[s]) * t;
+                    if (distance > halfWidth + bankWidth) continue;
+
+                    // Full depth across the bed, easing back to the original ground over the bank
+                    const i = z * row + x;
+                    const bed = beds[s] + (beds[s + 1] - beds[s]) * t;
+                    const bank = smoothstep(halfWidth * 0.5, halfWidth + bankWidth, distance);
+                    heights[i] = Math.min(heights[i], bed + (heights[i] - bed) * bank);
+                    bedMask[i] = Math.max(bedMask[i], 1 - smoothstep(halfWidth * 0.75, halfWidth + bankWidth * 0.25, distance));
+                }
+            }
+        }
+    }
+
+    // Lake beds: nothing may stick out of the water inside a lake
+    for (const pool of system.pools) {
+        if (pool.type !== 'lake' || !pool.cells) continue;
+        const bedLevel = pool.waterLevel - 0.5;
+        for (const cell of pool.cells) {
+            const node = field[Math.floor(cell / resolution)][cell % resolution];
+            // Only the vertices inside the flooded cell, so the shore just outside keeps its shape
+            const x0 = Math.max(0, Math.ceil((node.x - cellSize / 2 + grid.width / 2) / stepX));
+            const x1 = Math.min(grid.segments, Math.floor((node.x + cellSize / 2 + grid.width / 2) / stepX));
+            const z0 = Math.max(0, Math.ceil((node.z - cellSize / 2 + grid.depth / 2) / stepZ));
+            const z1 = Math.min(grid.segments, Math.floor((node.z + cellSize / 2 + grid.depth / 2) / stepZ));
+            for (let z = z0; z <= z1; z++) {
+                for (let x = x0; x <= x1; x++) {
+                    const i = z * row + x;
+                    heights[i] = Math.min(heights[i], bedLevel);
+                    bedMask[i] = 1;
+                }
+            }
+        }
+    }
+
+    return bedMask;
+}
+
+/**
+ * Blend vertex colours (rgb per vertex) towards the sediment colour by the bed
+ * mask, so channels and lake floors read as silt rather than grass or rock.
+ */
+export function tintSedimentColors(colors: Float32Array, bedMask: Float32Array, sediment: RGBColor): void {
+    for (let i = 0; i < bedMask.length; i++) {
+        const t = bedMask[i] * SEDIMENT_STRENGTH;
+        if (t === 0) continue;
+        colors[i * 3] += (sediment.r - colors[i * 3]) * t;
+        colors[i * 3 + 1] += (sediment.g - colors[i * 3 + 1]) * t;
+        colors[i * 3 + 2] += (sediment.b - colors[i * 3 + 2]) * t;
+    }
+}
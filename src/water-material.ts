@@ -0,0 +1,416 @@
+/**
+ * Water Material
+ *
+ * One shader for every water surface - water biomes on the terrain and the
+ * oceans, lakes, rivers and waterfalls of the water system:
+ * - Two layers of a procedural normal map scrolling along the flow direction
+ * - Planar reflection of the sky and terrain about the nearest water plane
+ * - Refraction of the scene below, absorbed towards the water colour with depth
+ * - Foam where the water meets the terrain
+ *
+ * Reflection and refraction come from two render passes shared by all water
+ * materials, made once per frame by updateWaterEffects() before the main render.
+ * Water meshes are registered as they are built, so finding them doesn't walk
+ * the scene every frame.
+ */
+
+import * as THREE from 'three';
+import { mulberry32 } from './random';
+
+export interface WaterMaterialOptions {
+    color: THREE.Color;                        // Colour of deep water
+    flowDirection?: { x: number; y: number };  // Surface drift along world x/z
+    reflectivity?: number;                     // 0-1, scales the Fresnel reflection (default 1)
+    flowAttribute?: boolean;                   // Geometry has a per-vertex `flow` (vec2) instead (rivers)
+}
+
+// World units per second for a flowDirection of length 1
+export const FLOW_SPEED = 4;
+
+const NORMAL_MAP_SIZE = 256;
+const REFLECTION_SCALE = 0.5;    // Reflection pass resolution relative to the screen
+
+const waterMaterials = new WeakSet<THREE.Material>();
+// Meshes drawn with a water material, from when they are built until their geometry is disposed
+const waterMeshes = new Set<THREE.Mesh>();
+let normalMap: THREE.DataTexture | null = null;
+
+// Uniforms shared by reference between every water material
+const sharedUniforms = {
+    time: { value: 0 },
+    normalMap: { value: null as THREE.Texture | null },
+    reflectionMap: { value: null as THREE.Texture | null },
+    refractionMap: { value: null as THREE.Texture | null },
+    depthMap: { value: null as THREE.Texture | null },
+    textureMatrix: { value: new THREE.Matrix4() },
+    resolution: { value: new THREE.Vector2(1, 1) },
+    cameraNear: { value: 0.1 },
+    cameraFar: { value: 10000 },
+    sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+    sunColor: { value: new THREE.Color(1, 1, 1) }
+};
+
+const vertexShader = `
+    #include <common>
+    #include <fog_pars_vertex>
+
+    uniform mat4 textureMatrix;
+    uniform vec2 flowDirection;
+    #ifdef USE_FLOW_ATTRIBUTE
+    attribute vec2 flow;
+    #endif
+
+    varying vec3 vWorldPosition;
+    varying vec4 vReflectCoord;
+    varying vec2 vFlow;
+
+    void main() {
+        vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+        vWorldPosition = worldPosition.xyz;
+        vReflectCoord = textureMatrix * worldPosition;
+        #ifdef USE_FLOW_ATTRIBUTE
+        vFlow = flow;
+        #else
+        vFlow = flowDirection;
+        #endif
+
+        vec4 mvPosition = viewMatrix * worldPosition;
+        gl_Position = projectionMatrix * mvPosition;
+        #include <fog_vertex>
+    }
+`;
+
+const fragmentShader = `
+    #include <common>
+    #include <packing>
+    #include <fog_pars_fragment>
+
+    uniform float time;
+    uniform sampler2D normalMap;
+    uniform sampler2D reflectionMap;
+    uniform sampler2D refractionMap;
+    uniform sampler2D depthMap;
+    uniform vec2 resolution;
+    uniform float cameraNear;
+    uniform float cameraFar;
+    uniform vec3 sunDirection;
+    uniform vec3 sunColor;
+    uniform vec3 waterColor;
+    uniform float reflectivity;
+
+    varying vec3 vWorldPosition;
+    varying vec4 vReflectCoord;
+    varying vec2 vFlow;
+
+    const float NORMAL_REPEAT = 1.0 / 32.0;  // Normal map tiles per world unit
+    const float FLOW_CYCLE = 8.0;            // Seconds before a scrolled layer resets
+    const float DISTORTION = 0.03;
+    const float ABSORPTION = 0.08;           // Per world unit of water looked through
+    const float FOAM_DISTANCE = 2.5;
+
+    // Two octaves of the normal map, the finer one drifting on its own so still water ripples too
+    vec4 sampleWaves(vec2 coord) {
+        vec4 coarse = texture2D(normalMap, coord * NORMAL_REPEAT);
+        vec4 fine = texture2D(normalMap, coord * NORMAL_REPEAT * 2.7 + vec2(time * 0.013, -time * 0.009));
+        return vec4(normalize(coarse.xyz * 2.0 - 1.0 + fine.xyz * 2.0 - 1.0), (coarse.a + fine.a) * 0.5);
+    }
+
+    void main() {
+        // Flow-map scrolling: two phases half a cycle apart, crossfaded so the texture never stretches
+        float phase0 = fract(time / FLOW_CYCLE);
+        float phase1 = fract(time / FLOW_CYCLE + 0.5);
+        vec2 coord = vWorldPosition.xz;
+        vec4 waves0 = sampleWaves(coord - vFlow * phase0 * FLOW_CYCLE);
+        vec4 waves1 = sampleWaves(coord - vFlow * phase1 * FLOW_CYCLE + vec2(17.0, 11.0));
+        vec4 waves = mix(waves0, waves1, abs(1.0 - 2.0 * phase0));
+        vec3 normal = normalize(vec3(waves.x, waves.z, waves.y));
+        vec2 distortion = normal.xz * DISTORTION;
+
+        // How much water lies between the surface and the scene behind it
+        vec2 screenUv = gl_FragCoord.xy / resolution;
+        float surfaceZ = perspectiveDepthToViewZ(gl_FragCoord.z, cameraNear, cameraFar);
+        float thickness = max(surfaceZ - perspectiveDepthToViewZ(texture2D(depthMap, screenUv).x, cameraNear, cameraFar), 0.0);
+
+        // Refraction, unless the distorted lookup lands on something in front of the water
+        vec2 refractUv = screenUv + distortion * clamp(thickness * 0.1, 0.0, 1.0);
+        float refractedThickness = surfaceZ - perspectiveDepthToViewZ(texture2D(depthMap, refractUv).x, cameraNear, cameraFar);
+        if (refractedThickness < 0.0) refractUv = screenUv;
+        else thickness = refractedThickness;
+        vec3 refracted = texture2D(refractionMap, refractUv).rgb;
+        vec3 body = mix(waterColor, refracted, exp(-thickness * ABSORPTION));
+
+        vec4 reflectCoord = vReflectCoord;
+        reflectCoord.xy += distortion * reflectCoord.w;
+        vec3 reflected = texture2DProj(reflectionMap, reflectCoord).rgb;
+
+        vec3 viewDir = normalize(cameraPosition - vWorldPosition);
+        float fresnel = 0.02 + 0.98 * pow(1.0 - max(dot(normal, viewDir), 0.0), 5.0);
+        vec3 color = mix(body, reflected, clamp(fresnel * reflectivity, 0.0, 1.0));
+
+        vec3 halfDir = normalize(sunDirection + viewDir);
+        color += sunColor * pow(max(dot(normal, halfDir), 0.0), 200.0) * 2.0;
+
+        // Foam along the shoreline, broken up by the wave pattern
+        float shore = 1.0 - smoothstep(0.0, FOAM_DISTANCE, thickness);
+        float foam = smoothstep(0.4, 0.8, shore * (0.5 + waves.a));
+        color = mix(color, vec3(0.92, 0.95, 0.97), foam * 0.8);
+
+        gl_FragColor = vec4(color, 1.0);
+        #include <tonemapping_fragment>
+        #include <colorspace_fragment>
+        #include <fog_fragment>
+    }
+`;
+
+export function createWaterShaderMaterial(options: WaterMaterialOptions): THREE.ShaderMaterial {
+    sharedUniforms.normalMap.value = getNormalMap();
+    const flow = options.flowDirection ?? { x: 0, y: 0 };
+
+    const material = new THREE.ShaderMaterial({
+        uniforms: {
+            ...THREE.UniformsUtils.clone(THREE.UniformsLib.fog),
+            ...sharedUniforms,
+            waterColor: { value: options.color.clone() },
+            flowDirection: { value: new THREE.Vector2(flow.x * FLOW_SPEED, flow.y * FLOW_SPEED) },
+            reflectivity: { value: options.reflectivity ?? 1 }
+        },
+        defines: options.flowAttribute ? { USE_FLOW_ATTRIBUTE: '' } : {},
+        vertexShader,
+        fragmentShader,
+        fog: true,
+        side: THREE.DoubleSide // River ribbons and waterfall sheets are seen from both sides
+    });
+    waterMaterials.add(material);
+    return material;
+}
+
+/**
+ * Let `mesh` take part in the reflection and refraction passes if any of its
+ * materials is a water material. It drops out when its geometry is disposed.
+ */
+export function registerWaterMesh(mesh: THREE.Mesh): void {
+    const materials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    if (!materials.some(material => waterMaterials.has(material))) return;
+    waterMeshes.add(mesh);
+    mesh.geometry.addEventListener('dispose', () => waterMeshes.delete(mesh));
+}
+
+/**
+ * Render the reflection and refraction passes for this frame. Skipped when no
+ * water is visible. Call after the camera has moved, before the main render.
+ */
+export function updateWaterEffects(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera): void {
+    sharedUniforms.time.value = performance.now() * 0.001;
+
+    const water = findVisibleWater(scene);
+    if (water.meshes.length === 0) return;
+
+    camera.updateMatrixWorld();
+    const targets = getRenderTargets(renderer);
+    sharedUniforms.resolution.value.set(targets.refraction.width, targets.refraction.height);
+    sharedUniforms.cameraNear.value = camera.near;
+    sharedUniforms.cameraFar.value = camera.far;
+
+    const sun = scene.children.find((child): child is THREE.DirectionalLight => child instanceof THREE.DirectionalLight);
+    if (sun) {
+        sharedUniforms.sunDirection.value.subVectors(sun.position, sun.target.position).normalize();
+        sharedUniforms.sunColor.value.copy(sun.color).multiplyScalar(sun.intensity);
+    }
+
+    // Water must not see itself, and shadows from this frame's main render are good enough
+    const shadowAutoUpdate = renderer.shadowMap.autoUpdate;
+    renderer.shadowMap.autoUpdate = false;
+    for (const material of water.materials) material.visible = false;
+
+    renderer.setRenderTarget(targets.refraction);
+    renderer.render(scene, camera);
+
+    if (updateMirrorCamera(camera, findReflectionHeight(water.meshes, camera.position))) {
+        renderer.setRenderTarget(targets.reflection);
+        renderer.render(scene, mirrorCamera);
+    }
+
+    renderer.setRenderTarget(null);
+    for (const material of water.materials) material.visible = true;
+    renderer.shadowMap.autoUpdate = shadowAutoUpdate;
+
+    sharedUniforms.refractionMap.value = targets.refraction.texture;
+    sharedUniforms.depthMap.value = targets.refraction.depthTexture;
+    sharedUniforms.reflectionMap.value = targets.reflection.texture;
+}
+
+function findVisibleWater(scene: THREE.Scene): { meshes: THREE.Mesh[]; materials: Set<THREE.Material> } {
+    const meshes: THREE.Mesh[] = [];
+    const materials = new Set<THREE.Material>();
+    for (const mesh of waterMeshes) {
+        if (!isShownIn(mesh, scene)) continue;
+        meshes.push(mesh);
+        const meshMaterials: THREE.Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        meshMaterials.forEach(material => waterMaterials.has(material) && materials.add(material));
+    }
+    return { meshes, materials };
+}
+
+// Attached to `scene` with it and all its ancestors visible (what traverseVisible would reach)
+function isShownIn(object: THREE.Object3D, scene: THREE.Scene): boolean {
+    for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+        if (!node.visible) return false;
+        if (node === scene) return true;
+    }
+    return false;
+}
+
+// Reflect about the flat water surface nearest the camera (horizontally) that is below it
+function findReflectionHeight(meshes: THREE.Mesh[], cameraPosition: THREE.Vector3): number {
+    let bestHeight = 0;
+    let bestDistance = Infinity;
+    const box = new THREE.Box3();
+    for (const mesh of meshes) {
+        if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+        box.copy(mesh.geometry.boundingBox!).applyMatrix4(mesh.matrixWorld);
+        if (box.max.y - box.min.y > 1 || box.max.y > cameraPosition.y) continue; // Sloped (rivers) or above us
+
+        const dx = Math.max(box.min.x - cameraPosition.x, 0, cameraPosition.x - box.max.x);
+        const dz = Math.max(box.min.z - cameraPosition.z, 0, cameraPosition.z - box.max.z);
+        const distance = dx * dx + dz * dz;
+        if (distance < bestDistance || (distance === bestDistance && box.max.y > bestHeight)) {
+            bestDistance = distance;
+            bestHeight = box.max.y;
+        }
+    }
+    return bestHeight;
+}
+
+let renderTargets: { reflection: THREE.WebGLRenderTarget; refraction: THREE.WebGLRenderTarget } | null = null;
+
+function getRenderTargets(renderer: THREE.WebGLRenderer) {
+    const size = renderer.getDrawingBufferSize(new THREE.Vector2());
+    if (!renderTargets) {
+        const refraction = new THREE.WebGLRenderTarget(size.x, size.y, {
+            depthTexture: new THREE.DepthTexture(size.x, size.y)
+        });
+        const reflection = new THREE.WebGLRenderTarget(
+            Math.max(1, Math.floor(size.x * REFLECTION_SCALE)), Math.max(1, Math.floor(size.y * REFLECTION_SCALE)));
+        renderTargets = { reflection, refraction };
+    } else if (renderTargets.refraction.width !== size.x || renderTargets.refraction.height !== size.y) {
+        renderTargets.refraction.setSize(size.x, size.y);
+        renderTargets.reflection.setSize(Math.max(1, Math.floor(size.x * REFLECTION_SCALE)), Math.max(1, Math.floor(size.y * REFLECTION_SCALE)));
+    }
+    return renderTargets;
+}
+
+const mirrorCamera = new THREE.PerspectiveCamera();
+const up = new THREE.Vector3(0, 1, 0);
+const mirrorPlane = new THREE.Plane();
+const planePoint = new THREE.Vector3();
+const cameraWorldPosition = new THREE.Vector3();
+const lookAtPosition = new THREE.Vector3();
+const rotationMatrix = new THREE.Matrix4();
+const view = new THREE.Vector3();
+const target = new THREE.Vector3();
+const clipPlane = new THREE.Vector4();
+const q = new THREE.Vector4();
+
+/**
+ * Mirror the camera about the horizontal plane at `height`, with an oblique near
+ * plane so nothing below the water ends up in the reflection. Returns false when
+ * the camera is under the plane (nothing to reflect).
+ */
+function updateMirrorCamera(camera: THREE.PerspectiveCamera, height: number): boolean {
+    cameraWorldPosition.setFromMatrixPosition(camera.matrixWorld);
+    if (cameraWorldPosition.y <= height) return false;
+    planePoint.set(cameraWorldPosition.x, height, cameraWorldPosition.z);
+    rotationMatrix.extractRotation(camera.matrixWorld);
+
+    view.subVectors(planePoint, cameraWorldPosition).reflect(up).negate().add(planePoint);
+    lookAtPosition.set(0, 0, -1).applyMatrix4(rotationMatrix).add(cameraWorldPosition);
+    target.subVectors(planePoint, lookAtPosition).reflect(up).negate().add(planePoint);
+
+    mirrorCamera.position.copy(view);
+    mirrorCamera.up.set(0, 1, 0).applyMatrix4(rotationMatrix).reflect(up);
+    mirrorCamera.lookAt(target);
+    mirrorCamera.near = camera.near;
+    mirrorCamera.far = camera.far;
+    mirrorCamera.updateMatrixWorld();
+    mirrorCamera.projectionMatrix.copy(camera.projectionMatrix);
+
+    // Maps world positions to reflection texture coordinates
+    sharedUniforms.textureMatrix.value.set(
+        0.5, 0.0, 0.0, 0.5,
+        0.0, 0.5, 0.0, 0.5,
+        0.0, 0.0, 0.5, 0.5,
+        0.0, 0.0, 0.0, 1.0
+    ).multiply(mirrorCamera.projectionMatrix).multiply(mirrorCamera.matrixWorldInverse);
+
+    // Oblique near plane (Lengyel): clip the projection at the water plane
+    mirrorPlane.setFromNormalAndCoplanarPoint(up, planePoint).applyMatrix4(mirrorCamera.matrixWorldInverse);
+    clipPlane.set(mirrorPlane.normal.x, mirrorPlane.normal.y, mirrorPlane.normal.z, mirrorPlane.constant);
+    const projection = mirrorCamera.projectionMatrix.elements;
+    q.set(
+        (Math.sign(clipPlane.x) + projection[8]) / projection[0],
+        (Math.sign(clipPlane.y) + projection[9]) / projection[5],
+        -1.0,
+        (1.0 + projection[10]) / projection[14]
+    );
+    clipPlane.multiplyScalar(2.0 / clipPlane.dot(q));
+    projection[2] = clipPlane.x;
+    projection[6] = clipPlane.y;
+    projection[10] = clipPlane.z + 1.0;
+    projection[14] = clipPlane.w;
+    mirrorCamera.projectionMatrixInverse.copy(mirrorCamera.projectionMatrix).invert();
+    return true;
+}
+
+// Tileable wave normals (rgb) and heights (a): a sum of sine waves with whole-number frequencies
+function getNormalMap(): THREE.DataTexture {
+    if (normalMap) return normalMap;
+
+    const random = mulberry32(0x5eed);
+    const waves = Array.from({ length: 24 }, () => {
+        const kx = Math.floor(random() * 17) - 8;
+        const kz = Math.floor(random() * 17) - 8 || 1;
+        return { kx, kz, amplitude: 1 / Math.hypot(kx, kz), phase: random() * Math.PI * 2 };
+    });
+
+    const size = NORMAL_MAP_SIZE;
+    const data = new Uint8Array(size * size * 4);
+    const heights = new Float32Array(size * size);
+    for (let v = 0; v < size; v++) {
+        for (let u = 0; u < size; u++) {
+            let height = 0, slopeU = 0, slopeV = 0;
+            for (const wave of waves) {
+                const angle = 2 * Math.PI * (wave.kx * u + wave.kz * v) / size + wave.phase;
+                height += wave.amplitude * Math.sin(angle);
+                const slope = wave.amplitude * Math.cos(angle) * 2 * Math.PI / size;
+                slopeU += slope * wave.kx;
+                slopeV += slope * wave.kz;
+            }
+
+            // Exaggerate the slopes so the ripples read at a distance
+            const nx = -slopeU * 6, ny = -slopeV * 6;
+            const length = Math.sqrt(nx * nx + ny * ny + 1);
+            const i = (v * size + u) * 4;
+            data[i] = Math.round((nx / length * 0.5 + 0.5) * 255);
+            data[i + 1] = Math.round((ny / length * 0.5 + 0.5) * 255);
+            data[i + 2] = Math.round((1 / length * 0.5 + 0.5) * 255);
+            heights[v * size + u] = height;
+        }
+    }
+
+    // Heights stretched to the full 0-1 range (they drive the foam pattern)
+    let min = Infinity, max = -Infinity;
+    for (const height of heights) {
+        min = Math.min(min, height);
+        max = Math.max(max, height);
+    }
+    heights.forEach((height, i) => data[i * 4 + 3] = Math.round((height - min) / (max - min || 1) * 255));
+
+    normalMap = new THREE.DataTexture(data, size, size, THREE.RGBAFormat);
+    normalMap.wrapS = THREE.RepeatWrapping;
+    normalMap.wrapT = THREE.RepeatWrapping;
+    normalMap.magFilter = THREE.LinearFilter;
+    normalMap.minFilter = THREE.LinearMipmapLinearFilter;
+    normalMap.generateMipmaps = true;
+    normalMap.needsUpdate = true;
+    return normalMap;
+}
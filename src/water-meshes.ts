@@ -0,0 +1,214 @@
+/**
+ * Water Meshes
+ *
+ * Turns a simulated WaterSystem into scene geometry:
+ * - Ocean: one flat plane at sea level over the ocean's extent (terrain hides the dry parts)
+ * - Lakes: flat quads over exactly the flooded cells, so water never spills over a ridge
+ * - Rivers: ribbons following each traced river path, widening with flow
+ * - Waterfalls: sheets spanning the drop between the top and bottom of each fall
+ */
+
+import * as THREE from 'three';
+import type { WaterSystem, WaterParams, WaterPool, RiverSegment, Waterfall } from './types';
+import { createWaterShaderMaterial, registerWaterMesh, FLOW_SPEED } from './water-material';
+
+// Lifts running water slightly above the (coarser) analysis grid so the terrain doesn't poke through
+const RIVER_SURFACE_OFFSET = 0.5;
+
+// Surface speed (in flowDirection units) of rivers and of water going over a fall
+const RIVER_FLOW = 1.5;
+const WATERFALL_FLOW = 5;
+
+export interface WaterMaterials {
+    still: THREE.Material;       // Oceans and lakes
+    flowing: THREE.Material;     // Rivers and waterfalls (geometry carries a per-vertex flow)
+}
+
+export function createWaterMaterials(params: WaterParams): WaterMaterials {
+    const color = params.color
+        ? new THREE.Color(params.color.r, params.color.g, params.color.b)
+        : new THREE.Color(0, 0.41, 0.58);
+
+    return {
+        still: createWaterShaderMaterial({ color }),
+        flowing: createWaterShaderMaterial({ color, flowAttribute: true })
+    };
+}
+
+export function buildWaterMeshes(system: WaterSystem, materials: WaterMaterials): THREE.Group {
+    const group = new THREE.Group();
+    group.name = 'water';
+
+    const field = system.flowField;
+    const resolution = field.length;
+    if (resolution < 2) return group;
+    const cellSize = field[0][1].x - field[0][0].x;
+
+    for (const pool of system.pools) {
+        const geometry = pool.type === 'ocean'
+            ? createOceanGeometry(pool, cellSize)
+            : createLakeGeometry(pool, system, cellSize);
+        if (!geometry) continue;
+        const mesh = new THREE.Mesh(geometry, materials.still);
+        mesh.name = `${pool.type}-${pool.id}`;
+        mesh.renderOrder = 1; // After opaque terrain
+        registerWaterMesh(mesh);
+        group.add(mesh);
+    }
+
+    system.rivers.forEach((river, index) => {
+        const geometry = createRiverGeometry(river, cellSize);
+        if (!geometry) return;
+        const mesh = new THREE.Mesh(geometry, materials.flowing);
+        mesh.name = `river-${index}`;
+        mesh.renderOrder = 1;
+        registerWaterMesh(mesh);
+        group.add(mesh);
+    });
+
+    system.waterfalls.forEach((waterfall, index) => {
+        const mesh = new THREE.Mesh(createWaterfallGeometry(waterfall, cellSize), materials.flowing);
+        mesh.name = `waterfall-${index}`;
+        mesh.renderOrder = 1;
+        registerWaterMesh(mesh);
+        group.add(mesh);
+    });
+
+    console.log(`🌊 Built water meshes: ${system.pools.length} pools, ${system.rivers.length} rivers, ${system.waterfalls.length} waterfalls`);
+    return group;
+}
+
+function createOceanGeometry(pool: WaterPool, cellSize: number): THREE.BufferGeometry | null {
+    const { minX, maxX, minZ, maxZ } = pool.boundingBox;
+    if (!Number.isFinite(minX)) return null; // Nothing below sea level
+
+    // Pad by a cell so the shoreline meets the plane under the terrain
+    const width = maxX - minX + cellSize * 2;
+    const depth = maxZ - minZ + cellSize * 2;
+    const geometry = new THREE.PlaneGeometry(width, depth);
+    geometry.rotateX(-Math.PI / 2);
+    geometry.translate((minX + maxX) / 2, pool.waterLevel, (minZ + maxZ) / 2);
+    return geometry;
+}
+
+function createLakeGeometry(pool: WaterPool, system: WaterSystem, cellSize: number): THREE.BufferGeometry | null {
+    if (!pool.cells || pool.cells.length === 0) return null;
+
+    const resolution = system.flowField.length;
+    const half = cellSize / 2;
+    const positions = new Float32Array(pool.cells.length * 4 * 3);
+    const indices: number[] = [];
+
+    // One quad centred on every flooded cell
+    pool.cells.forEach((cell, q) => {
+        const node = system.flowField[Math.floor(cell / resolution)][cell % resolution];
+        const corners = [
+            [node.x - half, node.z - half],
+            [node.x - half, node.z + half],
+            [node.x + half, node.z + half],
+            [node.x + half, node.z - half]
+        ];
+        corners.forEach(([x, z], c) => {
+            const i = (q * 4 + c) * 3;
+            positions[i] = x;
+            positions[i + 1] = pool.waterLevel;
+            positions[i + 2] = z;
+        });
+        const base = q * 4;
+        indices.push(base, base + 1, base + 3, base + 1, base + 2, base + 3);
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+}
+
+function createRiverGeometry(river: RiverSegment, cellSize: number): THREE.BufferGeometry | null {
+    const points = river.points;
+    if (points.length < 2) return null;
+
+    const positions = new Float32Array(points.length * 2 * 3);
+    const uvs = new Float32Array(points.length * 2 * 2);
+    const flow = new Float32Array(points.length * 2 * 2);
+    const indices: number[] = [];
+    let distance = 0;
+
+    for (let i = 0; i < points.length; i++) {
+        const point = points[i];
+
+        // Tangent from the neighbouring points, side vector perpendicular to it
+        const prev = points[Math.max(0, i - 1)];
+        const next = points[Math.min(points.length - 1, i + 1)];
+        let tx = next.x - prev.x;
+        let tz = next.z - prev.z;
+        const length = Math.sqrt(tx * tx + tz * tz) || 1;
+        tx /= length;
+        tz /= length;
+
+        // Narrow streams still need to be visible at the analysis grid's resolution
+        const halfWidth = Math.max(point.width, cellSize * 0.6) / 2;
+        const y = point.height + RIVER_SURFACE_OFFSET;
+
+        if (i > 0) {
+            distance += Math.hypot(point.x - points[i - 1].x, point.z - points[i - 1].z);
+        }
+
+        const left = i * 2 * 3;
+        positions[left] = point.x - tz * halfWidth;
+        positions[left + 1] = y;
+        positions[left + 2] = point.z + tx * halfWidth;
+        positions[left + 3] = point.x + tz * halfWidth;
+        positions[left + 4] = y;
+        positions[left + 5] = point.z - tx * halfWidth;
+
+        // u across the river, v along it (for flowing textures)
+        uvs.set([0, distance / cellSize, 1, distance / cellSize], i * 4);
+        flow.set([tx * RIVER_FLOW * FLOW_SPEED, tz * RIVER_FLOW * FLOW_SPEED], i * 4);
+        flow.set([tx * RIVER_FLOW * FLOW_SPEED, tz * RIVER_FLOW * FLOW_SPEED], i * 4 + 2);
+
+        if (i > 0) {
+            const a = (i - 1) * 2, b = a + 1, c = i * 2, d = c + 1;
+            indices.push(a, c, b, b, c, d);
+        }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    geometry.setAttribute('flow', new THREE.BufferAttribute(flow, 2));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return geometry;
+}
+
+function createWaterfallGeometry(waterfall: Waterfall, cellSize: number): THREE.BufferGeometry {
+    const { startPoint: top, endPoint: bottom } = waterfall;
+
+    let tx = bottom.x - top.x;
+    let tz = bottom.z - top.z;
+    const length = Math.sqrt(tx * tx + tz * tz) || 1;
+    tx /= length;
+    tz /= length;
+    const halfWidth = Math.max(waterfall.width, cellSize * 0.6) / 2;
+
+    // Sheet from the lip of the fall down to its plunge point
+    const positions = new Float32Array([
+        top.x - tz * halfWidth, top.height + RIVER_SURFACE_OFFSET, top.z + tx * halfWidth,
+        top.x + tz * halfWidth, top.height + RIVER_SURFACE_OFFSET, top.z - tx * halfWidth,
+        bottom.x - tz * halfWidth, bottom.height + RIVER_SURFACE_OFFSET, bottom.z + tx * halfWidth,
+        bottom.x + tz * halfWidth, bottom.height + RIVER_SURFACE_OFFSET, bottom.z - tx * halfWidth
+    ]);
+    const uvs = new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]);
+    const speed = WATERFALL_FLOW * FLOW_SPEED;
+    const flow = new Float32Array(Array.from({ length: 4 }, () => [tx * speed, tz * speed]).flat());
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    geometry.setAttribute('flow', new THREE.BufferAttribute(flow, 2));
+    geometry.setIndex([0, 2, 1, 1, 2, 3]);
+    geometry.computeVertexNormals();
+    return geometry;
+}
@@ -14,7 +14,56 @@
  * 4. Volume Conservation: Ensures water mass is preserved in the system
  */
 
-import type { WaterSystem, WaterPool, WaterFlowNode, Waterfall, RiverSegment } from './types';
+import type { WaterSystem, WaterPool, WaterFlowNode, Waterfall, RiverSegment, WaterParams } from './types';
+import type { TerrainGrid } from './terrain-sampler';
+
+// Binary min-heap of grid cells keyed by height (for priority floods)
+class CellHeap {
+    private indices: number[] = [];
+    private heights: number[] = [];
+
+    get size(): number {
+        return this.indices.length;
+    }
+
+    push(index: number, height: number): void {
+        let c = this.indices.length;
+        this.indices.push(index);
+        this.heights.push(height);
+        while (c > 0) {
+            const parent = (c - 1) >> 1;
+            if (this.heights[parent] <= height) break;
+            this.indices[c] = this.indices[parent];
+            this.heights[c] = this.heights[parent];
+            c = parent;
+        }
+        this.indices[c] = index;
+        this.heights[c] = height;
+    }
+
+    // Removes the lowest cell and returns [index, height]
+    pop(): [number, number] {
+        const top: [number, number] = [this.indices[0], this.heights[0]];
+        const lastIndex = this.indices.pop()!;
+        const lastHeight = this.heights.pop()!;
+        const size = this.indices.length;
+        if (size > 0) {
+            let c = 0;
+            while (true) {
+                const left = c * 2 + 1;
+                if (left >= size) break;
+                const child = left + 1 < size && this.heights[left + 1] < this.heights[left] ? left + 1 : left;
+                if (this.heights[child] >= lastHeight) break;
+                this.indices[c] = this.indices[child];
+                this.heights[c] = this.heights[child];
+                c = child;
+            }
+            this.indices[c] = lastIndex;
+            this.heights[c] = lastHeight;
+        }
+        return top;
+    }
+}
 
 export class WaterSystemGenerator {
     private terrainData: Float32Array;
@@ -25,6 +74,7 @@ export class WaterSystemGenerator {
     
     private flowField: WaterFlowNode[][];
     private poolMap: Map<string, number> = new Map(); // Maps coordinates to pool IDs
+    private drainageHeights: Float64Array = new Float64Array(0); // Heights with pits filled, for routing flow
     
     constructor(terrainData: Float32Array, width: number, depth: number, maxHeight: number, segments: number) {
         this.terrainData = terrainData;
@@ -72,7 +122,7 @@ export class WaterSystemGenerator {
         
         // Step 4: Generate ocean if requested
         const pools: WaterPool[] = [];
-        let globalSeaLevel = preferences.hasOcean ? (preferences.oceanLevel || -50) : -Infinity;
+        let globalSeaLevel = preferences.hasOcean ? (preferences.oceanLevel ?? -50) : -Infinity;
         
         if (preferences.hasOcean) {
             const ocean = this.generateOcean(globalSeaLevel);
@@ -81,7 +131,7 @@ export class WaterSystemGenerator {
         }
         
         // Step 5: Generate lakes from local minima
-        const lakes = this.generateLakes(potentialLakes, preferences.lakeDensity || 0.3, globalSeaLevel);
+        const lakes = this.generateLakes(potentialLakes, preferences.lakeDensity ?? 0.3, globalSeaLevel);
         pools.push(...lakes);
         console.log(`🏞️  Generated ${lakes.length} lakes`);
         
@@ -89,7 +139,7 @@ export class WaterSystemGenerator {
         this.calculateFlowAccumulation();
         
         // Step 7: Generate rivers based on flow accumulation
-        const rivers = this.generateRivers(preferences.riverDensity || 0.5, pools);
+        const rivers = this.generateRivers(preferences.riverDensity ?? 0.5, pools);
         console.log(`🏔️  Generated ${rivers.length} river segments`);
         
         // Step 8: Generate waterfalls where rivers drop significantly
@@ -127,8 +177,8 @@ export class WaterSystemGenerator {
                 const terrainIndex = i * this.segments + j;
                 const height = this.terrainData[terrainIndex * 3 + 1]; // Y coordinate
                 
-                this.flowField[i][j].x = (j - this.segments / 2) * stepX;
-                this.flowField[i][j].z = (i - this.segments / 2) * stepZ;
+                this.flowField[i][j].x = j * stepX - this.width / 2;
+                this.flowField[i][j].z = i * stepZ - this.depth / 2;
                 this.flowField[i][j].height = height;
                 this.flowField[i][j].waterLevel = height; // Initially no water
             }
@@ -141,10 +191,11 @@ export class WaterSystemGenerator {
      */
     private calculateFlowDirections(): void {
         console.log('🧮 Calculating flow directions using steepest descent...');
+        this.fillDepressions();
         
         for (let i = 1; i < this.segments - 1; i++) {
             for (let j = 1; j < this.segments - 1; j++) {
-                const currentHeight = this.flowField[i][j].height;
+                const currentHeight = this.drainageHeights[i * this.segments + j];
                 
                 // Calculate gradients in 8 directions (Moore neighborhood)
                 const neighbors = [
@@ -164,7 +215,7 @@ export class WaterSystemGenerator {
                 for (const neighbor of neighbors) {
                     const ni = i + neighbor.di;
                     const nj = j + neighbor.dj;
-                    const neighborHeight = this.flowField[ni][nj].height;
+                    const neighborHeight = this.drainageHeights[ni * this.segments + nj];
                     
                     // Calculate gradient: rise/run
                     const heightDiff = currentHeight - neighborHeight;
@@ -187,6 +238,48 @@ export class WaterSystemGenerator {
         }
     }
     
+    /**
+     * Priority-flood depression filling: raise every pit to just above its spill
+     * point so water routed over `drainageHeights` always finds a way downhill to
+     * the map edge. Lakes are still found on the real heights; this only keeps
+     * rivers from dying in every small hollow of the noise.
+     */
+    private fillDepressions(): void {
+        const n = this.segments;
+        const epsilon = 1e-3;
+        this.drainageHeights = new Float64Array(n * n);
+        const visited = new Uint8Array(n * n);
+        const heap = new CellHeap();
+
+        // The map edge drains everything
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) {
+                if (i !== 0 && i !== n - 1 && j !== 0 && j !== n - 1) continue;
+                const index = i * n + j;
+                visited[index] = 1;
+                this.drainageHeights[index] = this.flowField[i][j].height;
+                heap.push(index, this.drainageHeights[index]);
+            }
+        }
+
+        while (heap.size > 0) {
+            const [index, height] = heap.pop();
+            const i = Math.floor(index / n);
+            const j = index % n;
+            for (let di = -1; di <= 1; di++) {
+                for (let dj = -1; dj <= 1; dj++) {
+                    const ni = i + di, nj = j + dj;
+                    if (ni < 0 || ni >= n || nj < 0 || nj >= n) continue;
+                    const neighbor = ni * n + nj;
+                    if (visited[neighbor]) continue;
+                    visited[neighbor] = 1;
+                    this.drainageHeights[neighbor] = Math.max(this.flowField[ni][nj].height, height + epsilon);
+                    heap.push(neighbor, this.drainageHeights[neighbor]);
+                }
+            }
+        }
+    }
+
     /**
      * Find local minima in the terrain - potential lake locations
      */
@@ -297,6 +390,9 @@ export class WaterSystemGenerator {
                     // Set water level
                     this.flowField[i][j].waterLevel = seaLevel;
                     volume += seaLevel - height;
+
+                    // Rivers end where they reach the sea
+                    this.poolMap.set(`${i},${j}`, 0);
                 }
             }
         }
@@ -325,6 +421,9 @@ export class WaterSystemGenerator {
             
             // Skip if below sea level
             if (minimum.height <= globalSeaLevel) continue;
+
+            // Several minima often share one basin - the first (largest) lake already covers the rest
+            if (this.poolMap.has(this.cellKey(minimum.x, minimum.z))) continue;
             
             // Calculate lake water level (fill until overflow)
             const waterLevel = this.calculateLakeLevel(minimum);
@@ -340,6 +439,13 @@ export class WaterSystemGenerator {
         return lakes;
     }
     
+    // Pool map key of the grid cell nearest to a world position
+    private cellKey(x: number, z: number): string {
+        const i = Math.round((z + this.depth / 2) / (this.depth / (this.segments - 1)));
+        const j = Math.round((x + this.width / 2) / (this.width / (this.segments - 1)));
+        return `${i},${j}`;
+    }
+
     /**
      * Calculate water level for a lake by simulating filling until overflow
      */
@@ -351,68 +457,53 @@ export class WaterSystemGenerator {
         const centerI = Math.round((minimum.z + this.depth / 2) / stepZ);
         const centerJ = Math.round((minimum.x + this.width / 2) / stepX);
         
-        // Simulate filling by gradually raising water level
-        let waterLevel = minimum.height;
-        const maxLevel = minimum.height + 50; // Maximum lake depth
-        
-        for (let level = minimum.height; level < maxLevel; level += 1) {
-            // Check if water would overflow at this level
-            if (this.wouldOverflow(centerI, centerJ, level)) {
-                return level - 1;
-            }
+        // Simulate filling by raising the water level in 1 unit steps until it
+        // spills over the map edge
+        const maxSteps = 50; // Maximum lake depth
+        const spillLevel = this.findSpillLevel(centerI, centerJ, minimum.height + maxSteps);
+        if (spillLevel > minimum.height + maxSteps - 1) {
+            return minimum.height + maxSteps;
         }
-        
-        return maxLevel;
+
+        // Last whole step before the flood reaches the spill point
+        return minimum.height + Math.max(Math.ceil(spillLevel - minimum.height), 1) - 1;
     }
     
     /**
-     * Check if water would overflow from a lake at given level
+     * Lowest water level at which a flood starting from a cell reaches the map
+     * edge: the highest point along the lowest path out (a priority flood that
+     * always expands the lowest cell on the shore). Returns Infinity if the
+     * level would exceed `maxLevel`.
      */
-    private wouldOverflow(centerI: number, centerJ: number, waterLevel: number): boolean {
-        const visited = new Set<string>();
-        const queue = [{ i: centerI, j: centerJ }];
-        
-        while (queue.length > 0) {
-            const { i, j } = queue.shift()!;
-            const key = `${i},${j}`;
-            
-            if (visited.has(key) || i < 0 || i >= this.segments || j < 0 || j >= this.segments) {
-                continue;
-            }
-            
-            const height = this.flowField[i][j].height;
-            
-            // If we reach terrain higher than water level, we've found the boundary
-            if (height > waterLevel) {
-                return false;
-            }
-            
-            visited.add(key);
-            
-            // If we reach the edge, water would overflow
-            if (i === 0 || i === this.segments - 1 || j === 0 || j === this.segments - 1) {
-                return true;
-            }
-            
-            // Add neighbors if they're below water level
+    private findSpillLevel(centerI: number, centerJ: number, maxLevel: number): number {
+        const n = this.segments;
+        const visited = new Uint8Array(n * n);
+        const heap = new CellHeap();
+        const push = (i: number, j: number) => {
+            const index = i * n + j;
+            if (visited[index]) return;
+            visited[index] = 1;
+            heap.push(index, this.flowField[i][j].height);
+        };
+
+        let level = -Infinity;
+        push(centerI, centerJ);
+        while (heap.size > 0) {
+            const [index, height] = heap.pop();
+            level = Math.max(level, height);
+            if (level > maxLevel) return Infinity;
+
+            const i = Math.floor(index / n);
+            const j = index % n;
+            if (i === 0 || i === n - 1 || j === 0 || j === n - 1) return level;
+
             for (let di = -1; di <= 1; di++) {
                 for (let dj = -1; dj <= 1; dj++) {
-                    if (di === 0 && dj === 0) continue;
-                    
-                    const ni = i + di;
-                    const nj = j + dj;
-                    
-                    if (ni >= 0 && ni < this.segments && nj >= 0 && nj < this.segments) {
-                        const neighborHeight = this.flowField[ni][nj].height;
-                        if (neighborHeight <= waterLevel) {
-                            queue.push({ i: ni, j: nj });
-                        }
-                    }
+                    if (di !== 0 || dj !== 0) push(i + di, j + dj);
                 }
             }
         }
-        
-        return false;
+        return Infinity;
     }
     
     /**
@@ -423,6 +514,7 @@ export class WaterSystemGenerator {
         let minX = Infinity, maxX = -Infinity;
         let minZ = Infinity, maxZ = -Infinity;
         let volume = 0;
+        const cells: number[] = [];
         
         // Flood fill to determine lake extent
         const stepX = this.width / (this.segments - 1);
@@ -463,6 +555,7 @@ export class WaterSystemGenerator {
             
             // Mark in pool map
             this.poolMap.set(key, lakeId);
+            cells.push(i * this.segments + j);
             
             // Add neighbors
             for (let di = -1; di <= 1; di++) {
@@ -479,6 +572,7 @@ export class WaterSystemGenerator {
             boundingBox: { minX, maxX, minZ, maxZ },
             waterLevel,
             volume,
+            cells,
             outlets: [],
             inlets: []
         };
@@ -502,7 +596,7 @@ export class WaterSystemGenerator {
         const sortedCells = [];
         for (let i = 0; i < this.segments; i++) {
             for (let j = 0; j < this.segments; j++) {
-                sortedCells.push({ i, j, height: this.flowField[i][j].height });
+                sortedCells.push({ i, j, height: this.drainageHeights[i * this.segments + j] });
             }
         }
         
@@ -530,7 +624,10 @@ export class WaterSystemGenerator {
         console.log('🏔️  Generating rivers from flow accumulation...');
         
         const rivers: RiverSegment[] = [];
-        const riverThreshold = this.segments * this.segments * 0.01 * density; // Minimum flow for river
+        if (density <= 0) return rivers;
+
+        // Minimum upstream area for a river: denser settings let smaller streams through
+        const riverThreshold = this.segments * this.segments * 0.002 / Math.max(density, 0.05);
         
         const visited = new Set<string>();
         
@@ -656,3 +753,43 @@ export class WaterSystemGenerator {
         console.log('✅ Flow rate calculations complete!');
     }
 }
+
+/**
+ * Run the water simulation for a generated terrain heightmap.
+ * The (segments + 1)^2 heightmap is resampled to `params.resolution` cells per
+ * side first - lake flood fills and river tracing don't need full terrain detail.
+ */
+export function generateWaterSystemFromHeights(heights: Float32Array, grid: TerrainGrid, maxHeight: number,
+                                               params: WaterParams): WaterSystem {
+    const resolution = Math.max(16, Math.floor(params.resolution || 256));
+    const row = grid.segments + 1;
+    const terrainData = new Float32Array(resolution * resolution * 3);
+
+    for (let i = 0; i < resolution; i++) {
+        const gz = i / (resolution - 1) * grid.segments;
+        const z0 = Math.min(Math.floor(gz), grid.segments - 1);
+        const fz = gz - z0;
+        for (let j = 0; j < resolution; j++) {
+            const gx = j / (resolution - 1) * grid.segments;
+            const x0 = Math.min(Math.floor(gx), grid.segments - 1);
+            const fx = gx - x0;
+            const h0 = heights[z0 * row + x0] * (1 - fx) + heights[z0 * row + x0 + 1] * fx;
+            const h1 = heights[(z0 + 1) * row + x0] * (1 - fx) + heights[(z0 + 1) * row + x0 + 1] * fx;
+
+            const index = (i * resolution + j) * 3;
+            terrainData[index] = j / (resolution - 1) * grid.width - grid.width / 2;
+            terrainData[index + 1] = h0 * (1 - fz) + h1 * fz;
+            terrainData[index + 2] = i / (resolution - 1) * grid.depth - grid.depth / 2;
+        }
+    }
+
+    const generator = new WaterSystemGenerator(terrainData, grid.width, grid.depth, maxHeight, resolution);
+    return generator.generateWaterSystem({
+        hasOcean: params.hasOcean,
+        oceanLevel: params.oceanLevel,
+        riverDensity: params.riverDensity,
+        lakeDensity: params.lakeDensity,
+        waterfallThreshold: params.waterfallThreshold,
+        precipitation: params.precipitation
+    });
+}